@@ -0,0 +1,30 @@
+import { Passage, PassageSource } from "../types";
+import { PassageProvider } from "./passageProvider";
+import { SNIPPETS } from "./snippets";
+
+/** Width of a tab once expanded, so that every indentation in a snippet is typed as spaces */
+const TAB_WIDTH = 4;
+
+/** Picks a random multi-line code snippet from the corpus bundled with the backend */
+export class CodeProvider implements PassageProvider {
+  public readonly source = PassageSource.CODE;
+
+  public getPassage(): Passage {
+    const snippet = SNIPPETS[Math.floor(Math.random() * SNIPPETS.length)];
+
+    // expand the tabs and drop the trailing whitespace of every line
+    const text = snippet.code
+      .replace(/\t/g, " ".repeat(TAB_WIDTH))
+      .split("\n")
+      .map((line) => line.trimEnd())
+      .join("\n");
+
+    return {
+      id: snippet.id,
+      source: this.source,
+      title: `${snippet.title} (${snippet.language})`,
+      author: null,
+      text: text.trim(),
+    };
+  }
+}
@@ -0,0 +1,50 @@
+import { generate } from "random-words";
+import { v4 as uuid } from "uuid";
+import { Passage, PassageOptions, PassageSource } from "../types";
+import { PassageProvider } from "./passageProvider";
+
+const PUNCTUATION = [",", ".", ";", ":", "!", "?"];
+const WRAPPERS = [
+  ["(", ")"],
+  ['"', '"'],
+  ["[", "]"],
+];
+
+/** Generates a passage of random words mixed with numbers, capitals and punctuation */
+export class NumbersProvider implements PassageProvider {
+  public readonly source = PassageSource.NUMBERS;
+
+  public getPassage({ wordCount }: PassageOptions): Passage {
+    const words = generate({ exactly: wordCount }) as string[];
+
+    const tokens = words.map((word) => {
+      const roll = Math.random();
+
+      if (roll < 0.2) {
+        // swap the word for a number
+        return String(Math.floor(Math.random() * 10000));
+      } else if (roll < 0.35) {
+        return word[0].toUpperCase() + word.slice(1);
+      } else if (roll < 0.5) {
+        return word + this.pick(PUNCTUATION);
+      } else if (roll < 0.55) {
+        const [open, close] = this.pick(WRAPPERS);
+        return open + word + close;
+      }
+
+      return word;
+    });
+
+    return {
+      id: uuid(),
+      source: this.source,
+      title: "Numbers & Punctuation",
+      author: null,
+      text: tokens.join(" ").trim(),
+    };
+  }
+
+  private pick<T>(items: T[]): T {
+    return items[Math.floor(Math.random() * items.length)];
+  }
+}
@@ -0,0 +1,9 @@
+import { Passage, PassageOptions, PassageSource } from "../types";
+
+/** A source of passages that a game can be raced on */
+export interface PassageProvider {
+  readonly source: PassageSource;
+
+  /** Returns a new passage. The text is trimmed and ready to be stored as the game text */
+  getPassage(options: PassageOptions): Passage;
+}
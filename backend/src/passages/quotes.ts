@@ -0,0 +1,104 @@
+/** A curated corpus of public domain quotes used by the quotes passage source */
+export const QUOTES: {
+  id: string;
+  title: string;
+  author: string;
+  text: string;
+}[] = [
+  {
+    id: "quote-001",
+    title: "A Tale of Two Cities",
+    author: "Charles Dickens",
+    text: "It was the best of times, it was the worst of times, it was the age of wisdom, it was the age of foolishness, it was the epoch of belief, it was the epoch of incredulity, it was the season of Light, it was the season of Darkness.",
+  },
+  {
+    id: "quote-002",
+    title: "Pride and Prejudice",
+    author: "Jane Austen",
+    text: "It is a truth universally acknowledged, that a single man in possession of a good fortune, must be in want of a wife. However little known the feelings or views of such a man may be on his first entering a neighbourhood, this truth is so well fixed in the minds of the surrounding families.",
+  },
+  {
+    id: "quote-003",
+    title: "Walden",
+    author: "Henry David Thoreau",
+    text: "I went to the woods because I wished to live deliberately, to front only the essential facts of life, and see if I could not learn what it had to teach, and not, when I came to die, discover that I had not lived.",
+  },
+  {
+    id: "quote-004",
+    title: "Moby-Dick",
+    author: "Herman Melville",
+    text: "Call me Ishmael. Some years ago, never mind how long precisely, having little or no money in my purse, and nothing particular to interest me on shore, I thought I would sail about a little and see the watery part of the world.",
+  },
+  {
+    id: "quote-005",
+    title: "The Adventures of Sherlock Holmes",
+    author: "Arthur Conan Doyle",
+    text: "You see, but you do not observe. The distinction is clear. It is a capital mistake to theorize before one has data. Insensibly one begins to twist facts to suit theories, instead of theories to suit facts.",
+  },
+  {
+    id: "quote-006",
+    title: "Self-Reliance",
+    author: "Ralph Waldo Emerson",
+    text: "To believe your own thought, to believe that what is true for you in your private heart is true for all men, that is genius. Speak your latent conviction, and it shall be the universal sense.",
+  },
+  {
+    id: "quote-007",
+    title: "Alice's Adventures in Wonderland",
+    author: "Lewis Carroll",
+    text: "Alice was beginning to get very tired of sitting by her sister on the bank, and of having nothing to do: once or twice she had peeped into the book her sister was reading, but it had no pictures or conversations in it.",
+  },
+  {
+    id: "quote-008",
+    title: "The Gettysburg Address",
+    author: "Abraham Lincoln",
+    text: "Four score and seven years ago our fathers brought forth on this continent, a new nation, conceived in Liberty, and dedicated to the proposition that all men are created equal.",
+  },
+  {
+    id: "quote-009",
+    title: "Frankenstein",
+    author: "Mary Shelley",
+    text: "Nothing is so painful to the human mind as a great and sudden change. Life, although it may only be an accumulation of anguish, is dear to me, and I will defend it.",
+  },
+  {
+    id: "quote-010",
+    title: "The Picture of Dorian Gray",
+    author: "Oscar Wilde",
+    text: "The only way to get rid of a temptation is to yield to it. Resist it, and your soul grows sick with longing for the things it has forbidden to itself.",
+  },
+  {
+    id: "quote-011",
+    title: "Meditations",
+    author: "Marcus Aurelius",
+    text: "You have power over your mind, not outside events. Realize this, and you will find strength. The happiness of your life depends upon the quality of your thoughts.",
+  },
+  {
+    id: "quote-012",
+    title: "The Art of War",
+    author: "Sun Tzu",
+    text: "If you know the enemy and know yourself, you need not fear the result of a hundred battles. If you know yourself but not the enemy, for every victory gained you will also suffer a defeat.",
+  },
+  {
+    id: "quote-013",
+    title: "Hamlet",
+    author: "William Shakespeare",
+    text: "To be, or not to be, that is the question: whether 'tis nobler in the mind to suffer the slings and arrows of outrageous fortune, or to take arms against a sea of troubles, and by opposing end them.",
+  },
+  {
+    id: "quote-014",
+    title: "The Time Machine",
+    author: "H. G. Wells",
+    text: "It is a law of nature we overlook, that intellectual versatility is the compensation for change, danger, and trouble. An animal perfectly in harmony with its environment is a perfect mechanism.",
+  },
+  {
+    id: "quote-015",
+    title: "Little Women",
+    author: "Louisa May Alcott",
+    text: "I am not afraid of storms, for I am learning how to sail my ship. Love is the only thing that we can carry with us when we go, and it makes the end so easy.",
+  },
+  {
+    id: "quote-016",
+    title: "On the Origin of Species",
+    author: "Charles Darwin",
+    text: "There is grandeur in this view of life, with its several powers, having been originally breathed into a few forms or into one; and that, whilst this planet has gone cycling on according to the fixed law of gravity, endless forms most beautiful and most wonderful have been, and are being, evolved.",
+  },
+];
@@ -0,0 +1,20 @@
+import { Passage, PassageSource } from "../types";
+import { PassageProvider } from "./passageProvider";
+import { QUOTES } from "./quotes";
+
+/** Picks a random quote from the corpus bundled with the backend */
+export class QuotesProvider implements PassageProvider {
+  public readonly source = PassageSource.QUOTES;
+
+  public getPassage(): Passage {
+    const quote = QUOTES[Math.floor(Math.random() * QUOTES.length)];
+
+    return {
+      id: quote.id,
+      source: this.source,
+      title: quote.title,
+      author: quote.author,
+      text: quote.text.trim(),
+    };
+  }
+}
@@ -0,0 +1,133 @@
+/** A curated corpus of code snippets used by the code passage source */
+export const SNIPPETS: {
+  id: string;
+  language: string;
+  title: string;
+  code: string;
+}[] = [
+  {
+    id: "snippet-ts-001",
+    language: "TypeScript",
+    title: "debounce",
+    code: `function debounce<T extends unknown[]>(
+  fn: (...args: T) => void,
+  delay: number,
+) {
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  return (...args: T) => {
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => fn(...args), delay);
+  };
+}`,
+  },
+  {
+    id: "snippet-ts-002",
+    language: "TypeScript",
+    title: "groupBy",
+    code: `function groupBy<T, K extends string>(items: T[], key: (item: T) => K) {
+  const groups = {} as Record<K, T[]>;
+
+  for (const item of items) {
+    const group = key(item);
+    (groups[group] ||= []).push(item);
+  }
+
+  return groups;
+}`,
+  },
+  {
+    id: "snippet-ts-003",
+    language: "TypeScript",
+    title: "retry",
+    code: `async function retry<T>(task: () => Promise<T>, attempts = 3): Promise<T> {
+  try {
+    return await task();
+  } catch (err) {
+    if (attempts <= 1) throw err;
+    return retry(task, attempts - 1);
+  }
+}`,
+  },
+  {
+    id: "snippet-py-001",
+    language: "Python",
+    title: "binary_search",
+    code: `def binary_search(items, target):
+    low, high = 0, len(items) - 1
+
+    while low <= high:
+        mid = (low + high) // 2
+        if items[mid] == target:
+            return mid
+        elif items[mid] < target:
+            low = mid + 1
+        else:
+            high = mid - 1
+
+    return -1`,
+  },
+  {
+    id: "snippet-py-002",
+    language: "Python",
+    title: "word_count",
+    code: `from collections import Counter
+
+def word_count(path):
+    with open(path) as file:
+        words = file.read().lower().split()
+    return Counter(words).most_common(10)`,
+  },
+  {
+    id: "snippet-py-003",
+    language: "Python",
+    title: "Stack",
+    code: `class Stack:
+    def __init__(self):
+        self.items = []
+
+    def push(self, item):
+        self.items.append(item)
+
+    def pop(self):
+        if not self.items:
+            raise IndexError("pop from an empty stack")
+        return self.items.pop()`,
+  },
+  {
+    id: "snippet-go-001",
+    language: "Go",
+    title: "reverse",
+    code: `func reverse(s string) string {
+	runes := []rune(s)
+	for i, j := 0, len(runes)-1; i < j; i, j = i+1, j-1 {
+		runes[i], runes[j] = runes[j], runes[i]
+	}
+	return string(runes)
+}`,
+  },
+  {
+    id: "snippet-go-002",
+    language: "Go",
+    title: "worker pool",
+    code: `func worker(id int, jobs <-chan int, results chan<- int) {
+	for job := range jobs {
+		fmt.Println("worker", id, "processing job", job)
+		results <- job * 2
+	}
+}`,
+  },
+  {
+    id: "snippet-go-003",
+    language: "Go",
+    title: "http handler",
+    code: `func health(w http.ResponseWriter, r *http.Request) {
+	if r.Method != http.MethodGet {
+		http.Error(w, "method not allowed", http.StatusMethodNotAllowed)
+		return
+	}
+	w.WriteHeader(http.StatusOK)
+	w.Write([]byte("ok"))
+}`,
+  },
+];
@@ -0,0 +1,21 @@
+import { generate } from "random-words";
+import { v4 as uuid } from "uuid";
+import { Passage, PassageOptions, PassageSource } from "../types";
+import { PassageProvider } from "./passageProvider";
+
+/** Generates a passage of random lowercase words */
+export class WordsProvider implements PassageProvider {
+  public readonly source = PassageSource.WORDS;
+
+  public getPassage({ wordCount }: PassageOptions): Passage {
+    const text = generate({ exactly: wordCount, join: " " });
+
+    return {
+      id: uuid(),
+      source: this.source,
+      title: "Random Words",
+      author: null,
+      text: text.trim(),
+    };
+  }
+}
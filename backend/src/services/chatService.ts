@@ -0,0 +1,87 @@
+import { CHAT_MESSAGE_MAX_LENGTH } from "../types";
+
+/** Returns the text with anything objectionable masked, or null to reject the message altogether */
+export type ChatFilter = (text: string) => string | null;
+
+export type ModeratedMessage =
+  | { valid: true; text: string }
+  | { valid: false; reason: string };
+
+/** Checks chat messages before they are sent and runs them through a chain of moderation filters */
+export class ChatService {
+  private static instance: ChatService;
+  private filters: ChatFilter[];
+
+  private constructor() {
+    this.filters = [];
+
+    // the words to mask can be listed in the env, comma separated
+    const blockedWords = (process.env.CHAT_BLOCKED_WORDS ?? "")
+      .split(",")
+      .map((word) => word.trim())
+      .filter(Boolean);
+
+    if (blockedWords.length > 0) {
+      this.registerFilter(this.createWordMask(blockedWords));
+    }
+  }
+
+  /** Returns a singleton instance of ChatService */
+  public static getInstance() {
+    if (!ChatService.instance) {
+      ChatService.instance = new ChatService();
+    }
+
+    return ChatService.instance;
+  }
+
+  /** Adds a filter to the end of the chain, e.g. a profanity filter backed by an external service */
+  public registerFilter(filter: ChatFilter) {
+    this.filters.push(filter);
+  }
+
+  /**
+   * Normalizes a chat message and runs it through the filters.
+   * The whitespace is collapsed and the message is rejected if it is empty, too long or refused by a filter.
+   */
+  public moderate(rawText: unknown): ModeratedMessage {
+    if (typeof rawText !== "string") {
+      return { valid: false, reason: "The message can't be empty" };
+    }
+
+    let text = rawText.replace(/\s+/g, " ").trim();
+
+    if (!text) {
+      return { valid: false, reason: "The message can't be empty" };
+    }
+
+    if (text.length > CHAT_MESSAGE_MAX_LENGTH) {
+      return {
+        valid: false,
+        reason: `Messages can be at most ${CHAT_MESSAGE_MAX_LENGTH} characters long`,
+      };
+    }
+
+    for (const filter of this.filters) {
+      const filtered = filter(text);
+
+      if (filtered === null) {
+        return { valid: false, reason: "The message was blocked" };
+      }
+
+      text = filtered;
+    }
+
+    return { valid: true, text };
+  }
+
+  /** Creates a filter that masks the given words, ignoring their case */
+  private createWordMask(words: string[]): ChatFilter {
+    const escaped = words.map((word) =>
+      word.replace(/[.*+?^${}()|[\]\\]/g, "\\$&"),
+    );
+    const pattern = new RegExp(`\\b(${escaped.join("|")})\\b`, "gi");
+
+    return (text) => text.replace(pattern, (match) => "*".repeat(match.length));
+  }
+}
@@ -0,0 +1,139 @@
+import { FlagReason, KeystrokeEntry } from "../types";
+
+/** Inspects keystroke logs for pasted text and inhuman typing. The thresholds can be tuned from the env */
+export class CheatDetectionService {
+  private static instance: CheatDetectionService;
+
+  private pasteMinChars: number; // new non-whitespace characters in a single change that count as a paste
+  private burstIntervalMs: number; // keystrokes closer than this are part of a burst
+  private burstMinKeystrokes: number; // the length of a burst that gets flagged
+  private maxWpm: number; // the speed ceiling
+  private speedWindowMs: number; // the window over which the speed has to be sustained
+
+  private constructor() {
+    this.pasteMinChars = Number(process.env.ANTI_CHEAT_PASTE_MIN_CHARS) || 4;
+    this.burstIntervalMs =
+      Number(process.env.ANTI_CHEAT_BURST_INTERVAL_MS) || 15;
+    this.burstMinKeystrokes =
+      Number(process.env.ANTI_CHEAT_BURST_MIN_KEYSTROKES) || 10;
+    this.maxWpm = Number(process.env.ANTI_CHEAT_MAX_WPM) || 250;
+    this.speedWindowMs = Number(process.env.ANTI_CHEAT_SPEED_WINDOW_MS) || 5000;
+  }
+
+  /** Returns a singleton instance of CheatDetectionService */
+  public static getInstance() {
+    if (!CheatDetectionService.instance) {
+      CheatDetectionService.instance = new CheatDetectionService();
+    }
+
+    return CheatDetectionService.instance;
+  }
+
+  /**
+   * Returns the reason to flag a keystroke log, null if it looks human.
+   * The log is expected to have been validated by the ScoringService already.
+   */
+  public inspect(log: KeystrokeEntry[]): FlagReason | null {
+    const newChars = this.countNewChars(log);
+
+    if (newChars.some((count) => count >= this.pasteMinChars)) {
+      return FlagReason.PASTE;
+    }
+
+    if (this.hasBurst(log, newChars)) {
+      return FlagReason.BURST;
+    }
+
+    if (this.exceedsSpeedCeiling(log, newChars)) {
+      return FlagReason.SPEED;
+    }
+
+    return null;
+  }
+
+  /**
+   * Counts the new non-whitespace characters of every entry.
+   * An edit in the middle of the input re-inserts the tail it deleted, which is not counted as new.
+   * Whitespace is left out so that the indentation filled in after a newline is not mistaken for a paste.
+   */
+  private countNewChars(log: KeystrokeEntry[]) {
+    let input = "";
+
+    return log.map(([, deleted, inserted]) => {
+      const deletedText = input.slice(input.length - deleted);
+
+      let reinserted = 0;
+      while (
+        reinserted < deletedText.length &&
+        reinserted < inserted.length &&
+        deletedText[deletedText.length - 1 - reinserted] ===
+          inserted[inserted.length - 1 - reinserted]
+      ) {
+        reinserted++;
+      }
+
+      input = input.slice(0, input.length - deleted) + inserted;
+
+      return inserted.slice(0, inserted.length - reinserted).replace(/\s/g, "")
+        .length;
+    });
+  }
+
+  /** Looks for a run of typing keystrokes with near-zero intervals between them */
+  private hasBurst(log: KeystrokeEntry[], newChars: number[]) {
+    let burstLength = 0;
+    let lastTimestamp: number | null = null;
+
+    for (let i = 0; i < log.length; i++) {
+      if (newChars[i] === 0) continue;
+
+      const timestamp = log[i][0];
+
+      if (
+        lastTimestamp !== null &&
+        timestamp - lastTimestamp < this.burstIntervalMs
+      ) {
+        burstLength++;
+
+        if (burstLength >= this.burstMinKeystrokes) {
+          return true;
+        }
+      } else {
+        burstLength = 0;
+      }
+
+      lastTimestamp = timestamp;
+    }
+
+    return false;
+  }
+
+  /** Checks whether the speed over any window of speedWindowMs goes beyond maxWpm */
+  private exceedsSpeedCeiling(log: KeystrokeEntry[], newChars: number[]) {
+    let windowStart = 0;
+    let windowChars = 0;
+
+    for (let i = 0; i < log.length; i++) {
+      windowChars += newChars[i];
+
+      // shrink the window until it spans no more than speedWindowMs
+      while (log[i][0] - log[windowStart][0] > this.speedWindowMs) {
+        windowChars -= newChars[windowStart];
+        windowStart++;
+      }
+
+      const elapsedMs = log[i][0] - log[windowStart][0];
+
+      // only judge windows that are long enough to be sustained
+      if (elapsedMs < this.speedWindowMs * 0.8) continue;
+
+      const wpm = windowChars / 5 / (elapsedMs / 60000);
+
+      if (wpm > this.maxWpm) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+}
@@ -4,18 +4,48 @@ import { v4 as uuid } from "uuid";
 import WebSocket from "ws";
 import {
   BroadcastEvent,
+  BroadcastMessage,
+  FlagReason,
+  Game,
+  GameMode,
+  GameSettings,
   GameStatus,
-  MAX_SIZE,
+  JoinErrorCode,
+  MATCH_START_DELAY,
+  MAX_KEYSTROKES,
+  MATCHMAKING_CHANNEL,
   MessageEvent,
   MIN_SIZE,
   NewPlayerInfo,
+  PassageSource,
+  PUBLIC_GAMES_CHANNEL,
+  PUBLIC_GAMES_PAGE_SIZE,
+  RECONNECT_GRACE_PERIOD,
+  ScheduledJobType,
+  SETTINGS_LIMITS,
+  TIMED_RESULT_GRACE,
   WebSocketMessage,
 } from "../types";
 import { GameService } from "./gameService";
 import { LoggingService } from "./loggingService";
+import { PassageService } from "./passageService";
+import { ScoringService } from "./scoringService";
+import { CheatDetectionService } from "./cheatDetectionService";
+import { ChatService } from "./chatService";
+import { SchedulerService } from "./schedulerService";
 import "dotenv/config";
 import invariant from "tiny-invariant";
 
+/** The messages sent along with the codes of a rejected join */
+const JOIN_ERROR_MESSAGES: Record<JoinErrorCode, string> = {
+  [JoinErrorCode.NOT_FOUND]: "The invite code doesn't look good. Try again?",
+  [JoinErrorCode.FULL]: "This game is already full",
+  [JoinErrorCode.ALREADY_STARTED]: "This race has already started",
+  [JoinErrorCode.FINISHED]: "This race is already over",
+  [JoinErrorCode.LOCKED]: "The host has locked this lobby",
+  [JoinErrorCode.BANNED]: "You were removed from this game by the host",
+};
+
 /**
  * Manages the communication to the client.
  * Uses websockets and redis queues
@@ -25,10 +55,18 @@ export class CommunicationService {
   private pubClient: RedisClientType;
   private subClient: RedisClientType;
   private gameService: GameService;
+  private passageService: PassageService;
+  private scoringService: ScoringService;
+  private cheatDetectionService: CheatDetectionService;
+  private chatService: ChatService;
+  private schedulerService: SchedulerService;
   private wss: WebSocket.Server;
   private clientSubscriptions: Map<string, WebSocket[]>; // used to track the channel and its clients for this instance
   private clientPlayerIds: Map<WebSocket, string>;
   private clientGameIds: Map<WebSocket, string>;
+  private publicGameBrowsers: Set<WebSocket>; // clients on the landing page that listed the public games
+  private queuedClients: Map<string, WebSocket>; // the clients of this instance waiting for a quick race, by playerId
+  private matchmakingInterval: NodeJS.Timeout | null = null;
   private logger = LoggingService.getInstance();
 
   private constructor(server: http.Server) {
@@ -47,14 +85,52 @@ export class CommunicationService {
     });
     this.subClient = this.pubClient.duplicate();
     this.gameService = new GameService();
+    this.passageService = PassageService.getInstance();
+    this.scoringService = ScoringService.getInstance();
+    this.cheatDetectionService = CheatDetectionService.getInstance();
+    this.chatService = ChatService.getInstance();
+    this.schedulerService = SchedulerService.getInstance();
+
+    // the timers of the games live in redis, whichever instance claims a due job fires the transition
+    this.schedulerService.register(ScheduledJobType.START_MATCH, (gameId) =>
+      this.startRace(gameId, null),
+    );
+    this.schedulerService.register(ScheduledJobType.START_RACE, (gameId) =>
+      this.beginRace(gameId),
+    );
+    this.schedulerService.register(ScheduledJobType.TIME_UP, (gameId) =>
+      this.endRaceClock(gameId),
+    );
+    this.schedulerService.register(ScheduledJobType.COMPLETE_GAME, (gameId) =>
+      this.completeGame(gameId),
+    );
+    this.schedulerService.register(
+      ScheduledJobType.DROP_PLAYER,
+      (gameId, playerId) =>
+        this.dropDisconnectedPlayer(gameId, playerId as string),
+    );
     this.wss = new WebSocket.Server({ server });
     this.clientSubscriptions = new Map();
     this.clientGameIds = new Map();
     this.clientPlayerIds = new Map();
+    this.publicGameBrowsers = new Set();
+    this.queuedClients = new Map();
 
     Promise.all([this.pubClient.connect(), this.subClient.connect()])
-      .then(() => {
+      .then(async () => {
         this.logger.info("Pub-Sub clients connected");
+
+        // the storage announces every change to the public games, pass it on to whoever browses them
+        await this.subClient.subscribe(PUBLIC_GAMES_CHANNEL, () =>
+          this.notifyPublicGameBrowsers(),
+        );
+
+        // a match may be made by any instance, each one moves its own queued clients into the game
+        await this.subClient.subscribe(MATCHMAKING_CHANNEL, (message) =>
+          this.handleMatchFound(message),
+        );
+
+        this.schedulerService.start();
       })
       .catch((err) =>
         this.logger.error(`Pub-Sub client connection error: ${err}`),
@@ -67,40 +143,79 @@ export class CommunicationService {
       });
 
       ws.on("close", async () => {
-        const playerId = this.clientPlayerIds.get(ws);
-        const gameId = this.clientGameIds.get(ws);
-
-        if (gameId) {
-          let updatedHostId = null;
+        // the cleanup reads and writes the game, which may be gone or keep changing by now
+        try {
+          const playerId = this.clientPlayerIds.get(ws);
+          const gameId = this.clientGameIds.get(ws);
 
-          // unsubscribe the client from the game
-          await this.unsubscribeFromGame(ws);
+          this.publicGameBrowsers.delete(ws);
 
-          try {
-            // remove the player from the game and fetch the updated host id (if the player was a part of any game).
-            updatedHostId = await this.gameService.removePlayerFromGame(
-              playerId,
-              gameId,
-            );
-          } catch (err) {
-            LoggingService.getInstance().error(
-              `Couldn't remove the player from the game while closing the connection: ${err}`,
-            );
+          if (playerId && this.queuedClients.get(playerId) === ws) {
+            await this.leaveMatchmaking(playerId);
           }
 
-          if (updatedHostId) {
-            // if there have been any updates, notify others.
-            await this.pubClient.publish(
-              `game:${gameId}`,
-              JSON.stringify({
-                event: BroadcastEvent.PLAYER_LEFT,
-                payload: {
-                  updatedHostId,
-                  playerId,
-                },
-              }),
-            );
+          if (gameId) {
+            let updatedHostId = null;
+
+            // the player reconnected on another socket before this one was closed, that socket stands for them now
+            if (!this.isSubscribed(ws, gameId)) {
+              this.clientGameIds.delete(ws);
+              return;
+            }
+
+            // unsubscribe the client from the game
+            await this.unsubscribeFromGame(ws);
+
+            const wasSpectator = await this.isSpectator(gameId, playerId);
+            const game = await this.gameService.getGame(gameId);
+            const wasHost = game?.hostId === playerId;
+
+            // a player of a started game keeps their place for a while to reconnect, e.g. after a refresh.
+            // the countdown can't go on without its host though, so the host of a starting game leaves right away
+            if (
+              playerId &&
+              !wasSpectator &&
+              !(wasHost && game?.status === GameStatus.STARTING) &&
+              (await this.gameService.markPlayerDisconnected(gameId, playerId))
+            ) {
+              await this.holdDisconnectedPlayer(gameId, playerId);
+              return;
+            }
+
+            try {
+              // remove the player from the game and fetch the updated host id (if the player was a part of any game).
+              updatedHostId = await this.gameService.removePlayerFromGame(
+                playerId,
+                gameId,
+              );
+            } catch (err) {
+              LoggingService.getInstance().error(
+                `Couldn't remove the player from the game while closing the connection: ${err}`,
+              );
+            }
+
+            if (updatedHostId && wasSpectator) {
+              await this.publishSpectators(gameId);
+            } else if (updatedHostId) {
+              // if there have been any updates, notify others.
+              await this.pubClient.publish(
+                `game:${gameId}`,
+                JSON.stringify({
+                  event: BroadcastEvent.PLAYER_LEFT,
+                  payload: {
+                    updatedHostId,
+                    playerId,
+                  },
+                }),
+              );
+
+              await this.cancelAbandonedCountdown(gameId, wasHost);
+            }
           }
+        } catch (err) {
+          this.logger.error(
+            `Couldn't clean up after a closed connection: ${err}`,
+          );
         }
       });
 
@@ -127,16 +242,23 @@ export class CommunicationService {
     });
   }
 
-  /** Sends an error message to the client via websockets */
-  private sendError(client: WebSocket, errorMessage: string): void {
+  /** Sends an error message to the client via websockets. The code lets the client tell apart the errors it renders itself */
+  private sendError(
+    client: WebSocket,
+    errorMessage: string,
+    code?: JoinErrorCode,
+  ): void {
     this.send(client, {
       event: MessageEvent.ERROR,
-      payload: { message: errorMessage },
+      payload: { message: errorMessage, code },
     });
   }
 
   /** Sends the message to the client via websockets if the connection is open */
-  private send(client: WebSocket, message: WebSocketMessage) {
+  private send(
+    client: WebSocket,
+    message: WebSocketMessage | BroadcastMessage,
+  ) {
     if (client.readyState === WebSocket.OPEN) {
       client.send(JSON.stringify(message));
     }
@@ -185,35 +307,20 @@ export class CommunicationService {
       case MessageEvent.JOIN_GAME:
         this.handleJoinGame(client, payload);
         break;
-      case MessageEvent.CHECK_GAME_ID:
-        this.handleCheckGameId(client, payload);
-        break;
-      case MessageEvent.GET_LOBBY:
-        this.handleGetLobby(client);
-        break;
       case MessageEvent.CHANGE_USERNAME:
         this.handleChangeUsername(client, payload);
         break;
       case MessageEvent.START_GAME:
         this.handleStartGame(client);
         break;
-      case MessageEvent.GET_GAME_TEXT:
-        this.handleGetGameText(client);
-        break;
-      case MessageEvent.GET_GAME_PLAYERS:
-        this.handleGetGamePlayers(client);
-        break;
       case MessageEvent.PLAYER_UPDATE:
         this.handlePlayerUpdate(client, payload);
         break;
       case MessageEvent.FINISH_GAME:
         this.handleFinishGame(client, payload);
         break;
-      case MessageEvent.GET_GAME_RESULT:
-        this.handleGetGameResult(client);
-        break;
       case MessageEvent.RESTART_GAME:
-        this.handleRestartGame(client);
+        this.handleRestartGame(client, payload);
         break;
       case MessageEvent.LEAVE_GAME:
         this.handleLeaveGame(client);
@@ -224,18 +331,61 @@ export class CommunicationService {
       case MessageEvent.CANCEL_REJOIN:
         this.handleCancelRejoin(client);
         break;
+      case MessageEvent.UPDATE_SETTINGS:
+        this.handleUpdateSettings(client, payload);
+        break;
+      case MessageEvent.SET_CUSTOM_TEXT:
+        this.handleSetCustomText(client, payload);
+        break;
+      case MessageEvent.REPORT_INPUT_EVENT:
+        this.handleReportInputEvent(client, payload);
+        break;
+      case MessageEvent.SPECTATE_GAME:
+        this.handleSpectateGame(client, payload);
+        break;
+      case MessageEvent.LIST_PUBLIC_GAMES:
+        this.handleListPublicGames(client, payload);
+        break;
+      case MessageEvent.QUICK_RACE:
+        this.handleQuickRace(client);
+        break;
+      case MessageEvent.CANCEL_QUICK_RACE:
+        this.handleCancelQuickRace(client);
+        break;
+      case MessageEvent.KICK_PLAYER:
+        this.handleKickPlayer(client, payload);
+        break;
+      case MessageEvent.TRANSFER_HOST:
+        this.handleTransferHost(client, payload);
+        break;
+      case MessageEvent.LOCK_LOBBY:
+        this.handleLockLobby(client, payload);
+        break;
+      case MessageEvent.GET_GAME_STATE:
+        this.handleGetGameState(client, payload);
+        break;
+      case MessageEvent.SET_READY:
+        this.handleSetReady(client, payload);
+        break;
+      case MessageEvent.SEND_CHAT:
+        this.handleSendChat(client, payload);
+        break;
+      case MessageEvent.GET_CHAT_HISTORY:
+        this.handleGetChatHistory(client);
+        break;
       default:
         this.sendError(client, `Unsupported message event: ${event}`);
         break;
     }
   }
 
-  /** Handles the health check request from a client. Sends a message to confirm that the connection is alive */
+  /** Handles the health check request from a client. Sends a message with the server time to confirm that the connection is alive */
   private async handleHealthCheck(client: WebSocket) {
     this.send(client, {
       event: MessageEvent.HEALTH_CHECK,
       payload: {
         message: "The backend is online (atleast for now)",
+        serverTime: Date.now(), // lets the client estimate its clock offset
       },
     });
   }
@@ -304,6 +454,7 @@ export class CommunicationService {
     });
   }
 
+  /** Takes the player back into its game and tells the client where to go, or that the game can't be rejoined anymore */
   private async handleRejoinGame(client: WebSocket) {
     const playerId = this.clientPlayerIds.get(client);
 
@@ -312,49 +463,230 @@ export class CommunicationService {
       return;
     }
 
-    const gameInfo = await this.gameService.getGameInfo(playerId);
-
-    if (gameInfo.gameStatus === GameStatus.WAITING) {
-      // save the gameId in the local map
-      this.clientGameIds.set(client, gameInfo.gameId as string);
-
-      // add the player to the game object
-      await this.gameService.rejoinPlayer(playerId, gameInfo.gameId as string);
+    const gameId = await this.rejoinGame(client, playerId);
 
+    if (gameId) {
       this.send(client, {
         event: MessageEvent.REJOIN_GAME,
         payload: {
-          gameId: gameInfo.gameId,
+          gameId,
         },
       });
+    } else {
+      this.send(client, {
+        event: MessageEvent.DISCONNECT,
+        payload: {},
+      });
+    }
+  }
+
+  /**
+   * Attaches the client to the game the player belongs to and returns its gameId, null if it can't be rejoined.
+   * A waiting game admits the player like any other join, a started one only takes it back while it is disconnected within the grace period,
+   * or while its old socket is still subscribed here, e.g. a half-open one whose close never arrived.
+   * The expected gameId pins the game, e.g. the one of a refreshed page.
+   */
+  private async rejoinGame(
+    client: WebSocket,
+    playerId: string,
+    expectedGameId?: string,
+  ) {
+    const { gameId, gameStatus } = await this.gameService.getGameInfo(playerId);
+
+    if (!gameId || (expectedGameId && gameId !== expectedGameId)) {
+      return null;
+    }
+
+    if (gameStatus === GameStatus.WAITING) {
+      // the lobby may have filled up, been locked or banned the player in the meantime
+      const { rejection, isNewPlayer } = await this.gameService.addPlayer(
+        playerId,
+        gameId,
+      );
+
+      if (rejection) {
+        return null;
+      }
+
+      // save the gameId in the local map
+      this.clientGameIds.set(client, gameId);
 
       // resub the client
       await this.subscribeToGame(client);
 
-      // notify others that this player has rejoined
-      const newPlayerInfo = (await this.gameService.getPlayerInfo(
+      // notify others that this player has rejoined, they already list a player who never left the lobby
+      if (isNewPlayer) {
+        const newPlayerInfo = (await this.gameService.getPlayerInfo(
+          playerId,
+        )) as NewPlayerInfo; // the player validity is already checked while retrieving the gameInfo
+
+        await this.pubClient.publish(
+          `game:${gameId}`,
+          JSON.stringify({
+            event: BroadcastEvent.NEW_PLAYER_JOINED,
+            payload: {
+              newPlayerInfo,
+            },
+          }),
+        );
+      }
+    } else if (
+      await this.gameService.reconnectPlayer(
+        gameId,
+        playerId,
+        this.hasOtherSocket(client, gameId, playerId),
+      )
+    ) {
+      // the player dropped out of the started game and is back within the grace period
+      await this.schedulerService.cancel(
+        ScheduledJobType.DROP_PLAYER,
+        gameId,
         playerId,
-      )) as NewPlayerInfo; // the player validity is already checked while retrieving the gameInfo
+      );
+
+      this.clientGameIds.set(client, gameId);
+
+      await this.subscribeToGame(client);
 
       await this.pubClient.publish(
-        `game:${gameInfo.gameId}`,
+        `game:${gameId}`,
         JSON.stringify({
-          event: BroadcastEvent.NEW_PLAYER_JOINED,
+          event: BroadcastEvent.PLAYER_RECONNECTED,
           payload: {
-            newPlayerInfo,
+            playerId,
           },
         }),
       );
     } else {
-      this.send(client, {
-        event: MessageEvent.DISCONNECT,
-        payload: {},
-      });
+      return null;
+    }
+
+    return gameId;
+  }
+
+  /**
+   * Sends a snapshot of the game with everything needed to render its current stage.
+   * A refreshed page arrives on a new connection, which is attached to the game again if the player still belongs to it.
+   * A spectator is dropped from the game with its connection, so a refreshed page that was spectating asks to watch the game again.
+   * The state is null if the game doesn't exist or the client can't see it.
+   */
+  private async handleGetGameState(client: WebSocket, payload: any) {
+    const playerId = this.clientPlayerIds.get(client);
+
+    if (!playerId) {
+      this.sendError(client, "Player verification failed. Please reconnect.");
+      return;
+    }
+
+    if (payload.gameId && typeof payload.gameId !== "string") {
+      this.sendError(client, "Invalid game ID");
+      return;
+    }
+
+    let gameId = this.clientGameIds.get(client) ?? null;
+
+    const requestedGameId =
+      payload.gameId && (await this.gameService.resolveGameId(payload.gameId));
+
+    if (requestedGameId && requestedGameId !== gameId) {
+      const wasAttached = gameId !== null;
+
+      gameId = await this.rejoinGame(client, playerId, requestedGameId);
+
+      if (
+        !gameId &&
+        !wasAttached &&
+        payload.spectate === true &&
+        (await this.gameService.validateGameId(requestedGameId))
+      ) {
+        const rejection = await this.attachSpectator(
+          client,
+          playerId,
+          requestedGameId,
+        );
+
+        gameId = rejection ? null : requestedGameId;
+      }
+    }
+
+    const state = gameId
+      ? await this.gameService.getGameState(gameId, playerId)
+      : null;
+
+    this.send(client, {
+      event: MessageEvent.GET_GAME_STATE,
+      payload: {
+        state,
+      },
+    });
+  }
+
+  /** Tells the others that a player dropped out and removes them from the game unless they reconnect within the grace period */
+  private async holdDisconnectedPlayer(gameId: string, playerId: string) {
+    await this.pubClient.publish(
+      `game:${gameId}`,
+      JSON.stringify({
+        event: BroadcastEvent.PLAYER_DISCONNECTED,
+        payload: {
+          playerId,
+        },
+      }),
+    );
+
+    await this.schedulerService.schedule(
+      ScheduledJobType.DROP_PLAYER,
+      gameId,
+      Date.now() + RECONNECT_GRACE_PERIOD,
+      playerId,
+    );
+  }
+
+  /** Removes a disconnected player whose grace period ran out. Completes the race if it was only waiting for them */
+  private async dropDisconnectedPlayer(gameId: string, playerId: string) {
+    const game = await this.gameService.getGame(gameId);
+
+    if (!game || !game.disconnectedIds.includes(playerId)) {
+      return;
+    }
+
+    const wasHost = game.hostId === playerId;
+
+    const updatedHostId = await this.gameService.removePlayerFromGame(
+      playerId,
+      gameId,
+    );
+
+    // the game was deleted with its last player
+    if (!updatedHostId) {
+      return;
     }
 
-    // fetch the game status of the game, if its still waiting, rejoin, add user to the game and broadcast, update the local maps.
-    // otherwise return an error message
-    // fetch the game status only.
+    await this.pubClient.publish(
+      `game:${gameId}`,
+      JSON.stringify({
+        event: BroadcastEvent.PLAYER_LEFT,
+        payload: {
+          playerId,
+          updatedHostId,
+        },
+      }),
+    );
+
+    await this.cancelAbandonedCountdown(gameId, wasHost);
+
+    await this.completeIfOthersFinished(gameId);
+  }
+
+  /** Completes a running race that was only waiting for a player who left it */
+  private async completeIfOthersFinished(gameId: string) {
+    const game = await this.gameService.getGame(gameId);
+
+    if (
+      game?.status === GameStatus.IN_PROGRESS &&
+      (await this.gameService.checkAllPlayersFinished(gameId))
+    ) {
+      await this.completeGame(gameId);
+    }
   }
 
   /** Verifies if a client has an associated gameId and playerId. Returns true if valid*/
@@ -382,6 +714,13 @@ export class CommunicationService {
     return true;
   }
 
+  /** Checks whether the player only watches the given game */
+  private async isSpectator(gameId: string, playerId: string | undefined) {
+    const game = await this.gameService.getGame(gameId);
+
+    return !!playerId && !!game?.spectatorIds.includes(playerId);
+  }
+
   /** Sends the message to all clients subscribed to the game */
   private async broadcastToGame(gameId: string, message: string) {
     const clients: WebSocket[] =
@@ -396,6 +735,20 @@ export class CommunicationService {
         client.send(message);
       }
     }
+
+    // the kicked player has been told, detach its socket from the game
+    const { event, payload } = JSON.parse(message) as BroadcastMessage;
+
+    if (event === BroadcastEvent.PLAYER_KICKED) {
+      const kickedClient = clients.find(
+        (client) => this.clientPlayerIds.get(client) === payload.playerId,
+      );
+
+      if (kickedClient) {
+        await this.unsubscribeFromGame(kickedClient);
+        this.clientGameIds.delete(kickedClient);
+      }
+    }
   }
 
   /** Unsubscribes a client from the game. The instance unsubscribs from the channel if there are no clients listening to it */
@@ -405,14 +758,13 @@ export class CommunicationService {
       return;
     }
 
-    const playerId = this.clientPlayerIds.get(client);
     const gameId = this.clientGameIds.get(client);
 
     // remove the client from the game
     const clients: WebSocket[] =
       this.clientSubscriptions.get(`game:${gameId}`) || [];
     const updatedClients = clients.filter(
-      (client) => this.clientPlayerIds.get(client) !== playerId,
+      (existingClient) => existingClient !== client,
     );
     this.clientSubscriptions.set(`game:${gameId}`, updatedClients);
 
@@ -439,15 +791,37 @@ export class CommunicationService {
         this.broadcastToGame(gameId, message),
       );
     }
-    const clientExists = clients.some(
-      (existingClient) => this.clientPlayerIds.get(existingClient) === playerId,
+    // a reconnecting player may still have a half-open socket here, the new one replaces it
+    const updatedClients = clients.filter((existingClient) => {
+      const isReplaced =
+        existingClient !== client &&
+        this.clientPlayerIds.get(existingClient) === playerId;
+
+      if (isReplaced) {
+        this.clientGameIds.delete(existingClient);
+      }
+
+      return this.clientPlayerIds.get(existingClient) !== playerId;
+    });
+    updatedClients.push(client);
+
+    this.clientSubscriptions.set(`game:${gameId}`, updatedClients);
+  }
+
+  /** Checks whether another socket of the player is still receiving the updates of the game */
+  private hasOtherSocket(client: WebSocket, gameId: string, playerId: string) {
+    return (this.clientSubscriptions.get(`game:${gameId}`) || []).some(
+      (existingClient) =>
+        existingClient !== client &&
+        this.clientPlayerIds.get(existingClient) === playerId,
     );
-    if (!clientExists) {
-      // if this client does not exist already, add and update
-      clients.push(client);
+  }
 
-      this.clientSubscriptions.set(`game:${gameId}`, clients);
-    }
+  /** Checks whether the client is the one receiving the updates of the game for its player */
+  private isSubscribed(client: WebSocket, gameId: string) {
+    return (this.clientSubscriptions.get(`game:${gameId}`) || []).includes(
+      client,
+    );
   }
 
   /** Creates a new game and sets up the listener for any changes */
@@ -477,6 +851,11 @@ export class CommunicationService {
       return;
     }
 
+    // a player heading into a game stops waiting for a quick race
+    if (this.queuedClients.has(playerId)) {
+      await this.leaveMatchmaking(playerId);
+    }
+
     const newGameId = await this.gameService.createGame(playerId);
     // attach the gameId to the socket.
     this.clientGameIds.set(client, newGameId);
@@ -492,113 +871,547 @@ export class CommunicationService {
     await this.subscribeToGame(client);
   }
 
-  /** Joins the client to a game room if the max size has not been exceeded and notifies to the other clients */
-  private async handleJoinGame(client: WebSocket, payload: any) {
+  /** Puts the client on the matchmaking queue and tries to form a race right away */
+  private async handleQuickRace(client: WebSocket) {
     const playerId = this.clientPlayerIds.get(client);
     if (!playerId) {
-      LoggingService.getInstance().warn(
-        "Failed to join a game -> invalid player",
-      );
-      this.sendError(client, "Failed to join the game. Player ID is missing.");
+      this.sendError(client, "Failed to find a race. Player ID is missing.");
       return;
     }
 
-    const existingGameId = this.clientGameIds.get(client);
-    if (existingGameId) {
+    if (this.clientGameIds.get(client)) {
       this.sendError(
         client,
-        "You are already in a game. Leave the current game to join a new one.",
-      );
-      LoggingService.getInstance().warn(
-        "Failed to join a game -> player was already part of a game",
+        "You are already in a game. Leave the current game to find a quick race.",
       );
       return;
     }
 
-    const { gameId } = payload;
+    await this.gameService.joinMatchmaking(playerId);
+    this.queuedClients.set(playerId, client);
 
-    if (!gameId) {
-      this.sendError(
-        client,
-        "You're almost there! Enter an invite code to join",
-      );
-      return;
-    }
-    // validate this newGameId
-    const validGame = await this.gameService.validateGameId(gameId);
-    if (!validGame) {
-      this.sendError(client, "The invite code doesn't look good. Try again?");
-      return;
+    this.send(client, {
+      event: MessageEvent.QUICK_RACE,
+      payload: {},
+    });
+
+    // a partial race is formed once the fill timeout runs out, keep checking while anyone waits here
+    if (!this.matchmakingInterval) {
+      this.matchmakingInterval = setInterval(() => this.formMatch(), 1000);
     }
 
-    // ensure that the room size does not exceed the MAX_SIZE
-    const currentSize = (await this.gameService.getRoomSize(gameId)) as number;
-    if (currentSize > MAX_SIZE) {
-      this.sendError(client, "This game is already full");
+    await this.formMatch();
+  }
+
+  /** Takes the client off the matchmaking queue */
+  private async handleCancelQuickRace(client: WebSocket) {
+    const playerId = this.clientPlayerIds.get(client);
+
+    if (!playerId) {
+      this.logger.warn("Cancelling the quick race of an unknown player");
       return;
     }
 
-    await this.gameService.addPlayer(playerId, gameId);
-    // add the gameId to the socket.
-    this.clientGameIds.set(client, gameId);
+    await this.leaveMatchmaking(playerId);
+
     this.send(client, {
-      event: MessageEvent.JOIN_GAME,
-      payload: {
-        gameId,
-      },
+      event: MessageEvent.CANCEL_QUICK_RACE,
+      payload: {},
     });
-    // publish this new player on the game channel
-    const newPlayerInfo = (await this.gameService.getPlayerInfo(
-      playerId,
-    )) as NewPlayerInfo;
-    await this.pubClient.publish(
-      `game:${gameId}`,
-      JSON.stringify({
-        event: BroadcastEvent.NEW_PLAYER_JOINED,
-        payload: {
-          newPlayerInfo,
-        },
-      }),
-    );
-
-    // subscribe this client to the game.
-    await this.subscribeToGame(client);
   }
 
-  /** Verifies the incoming gameId and subscribes the client to the game(if valid). Returns false if no gameId was received */
-  private async handleCheckGameId(client: WebSocket, payload: any) {
-    // validate the socket.
-    if (!this.verifySocket(client)) {
-      return;
+  /** Removes the player from the queue and stops checking for matches once no one on this instance waits */
+  private async leaveMatchmaking(playerId: string) {
+    this.queuedClients.delete(playerId);
+
+    await this.gameService.leaveMatchmaking(playerId);
+
+    if (this.queuedClients.size === 0 && this.matchmakingInterval) {
+      clearInterval(this.matchmakingInterval);
+      this.matchmakingInterval = null;
     }
+  }
 
-    const { gameId } = payload;
+  /** Forms a race from the queue if possible, announces it to every instance and starts it after the players had time to arrive */
+  private async formMatch() {
+    try {
+      const match = await this.gameService.createMatch();
 
-    const validGame = await this.gameService.validateGameId(gameId);
+      if (!match) {
+        return;
+      }
 
-    this.send(client, {
-      event: MessageEvent.CHECK_GAME_ID,
-      payload: {
-        isGameInvalid: !validGame,
-      },
-    });
+      await this.pubClient.publish(MATCHMAKING_CHANNEL, JSON.stringify(match));
+
+      await this.schedulerService.schedule(
+        ScheduledJobType.START_MATCH,
+        match.gameId,
+        Date.now() + MATCH_START_DELAY,
+      );
+    } catch (err) {
+      this.logger.error(`Couldn't form a quick race: ${err}`);
+    }
   }
 
-  /** Returns the current game lobby of the given game */
-  private async handleGetLobby(client: WebSocket) {
-    // validate the client.
-    if (!this.verifySocket(client)) return;
+  /** Moves the matched clients of this instance into their new game */
+  private async handleMatchFound(message: string) {
+    const { gameId, playerIds } = JSON.parse(message) as {
+      gameId: string;
+      playerIds: string[];
+    };
+
+    for (const playerId of playerIds) {
+      const client = this.queuedClients.get(playerId);
+
+      if (!client) {
+        continue;
+      }
+
+      this.queuedClients.delete(playerId);
+      this.clientGameIds.set(client, gameId);
+
+      await this.subscribeToGame(client);
 
-    const gameId = this.clientGameIds.get(client) as string;
-    const lobby = await this.gameService.getLobby(gameId);
-    if (lobby) {
       this.send(client, {
-        event: MessageEvent.GET_LOBBY,
+        event: MessageEvent.MATCH_FOUND,
         payload: {
-          lobby,
+          gameId,
         },
       });
     }
+
+    if (this.queuedClients.size === 0 && this.matchmakingInterval) {
+      clearInterval(this.matchmakingInterval);
+      this.matchmakingInterval = null;
+    }
+  }
+
+  /** Joins the client to a game room if the max size has not been exceeded and notifies to the other clients */
+  private async handleJoinGame(client: WebSocket, payload: any) {
+    const playerId = this.clientPlayerIds.get(client);
+    if (!playerId) {
+      LoggingService.getInstance().warn(
+        "Failed to join a game -> invalid player",
+      );
+      this.sendError(client, "Failed to join the game. Player ID is missing.");
+      return;
+    }
+
+    const existingGameId = this.clientGameIds.get(client);
+    if (existingGameId) {
+      this.sendError(
+        client,
+        "You are already in a game. Leave the current game to join a new one.",
+      );
+      LoggingService.getInstance().warn(
+        "Failed to join a game -> player was already part of a game",
+      );
+      return;
+    }
+
+    if (!payload.gameId) {
+      this.sendError(
+        client,
+        "You're almost there! Enter an invite code to join",
+      );
+      return;
+    }
+
+    if (typeof payload.gameId !== "string") {
+      this.sendError(
+        client,
+        JOIN_ERROR_MESSAGES[JoinErrorCode.NOT_FOUND],
+        JoinErrorCode.NOT_FOUND,
+      );
+      return;
+    }
+    // accept either the short invite code or the full gameId
+    const gameId = await this.gameService.resolveGameId(payload.gameId);
+    const validGame = gameId && (await this.gameService.validateGameId(gameId));
+    if (!gameId || !validGame) {
+      this.sendError(
+        client,
+        JOIN_ERROR_MESSAGES[JoinErrorCode.NOT_FOUND],
+        JoinErrorCode.NOT_FOUND,
+      );
+      return;
+    }
+
+    if (this.queuedClients.has(playerId)) {
+      await this.leaveMatchmaking(playerId);
+    }
+
+    // the capacity and the status are checked while adding the player
+    const { rejection, isNewPlayer } = await this.gameService.addPlayer(
+      playerId,
+      gameId,
+    );
+
+    if (rejection) {
+      this.sendError(client, JOIN_ERROR_MESSAGES[rejection], rejection);
+      return;
+    }
+
+    // add the gameId to the socket.
+    this.clientGameIds.set(client, gameId);
+    this.send(client, {
+      event: MessageEvent.JOIN_GAME,
+      payload: {
+        gameId,
+      },
+    });
+    // publish this new player on the game channel
+    if (isNewPlayer) {
+      const newPlayerInfo = (await this.gameService.getPlayerInfo(
+        playerId,
+      )) as NewPlayerInfo;
+      await this.pubClient.publish(
+        `game:${gameId}`,
+        JSON.stringify({
+          event: BroadcastEvent.NEW_PLAYER_JOINED,
+          payload: {
+            newPlayerInfo,
+          },
+        }),
+      );
+    }
+
+    // subscribe this client to the game.
+    await this.subscribeToGame(client);
+  }
+
+  /** Subscribes the client to a game as a spectator, without adding it to the players */
+  private async handleSpectateGame(client: WebSocket, payload: any) {
+    const playerId = this.clientPlayerIds.get(client);
+    if (!playerId) {
+      this.sendError(
+        client,
+        "Failed to spectate the game. Player ID is missing.",
+      );
+      return;
+    }
+
+    if (this.clientGameIds.get(client)) {
+      this.sendError(
+        client,
+        "You are already in a game. Leave the current game to watch another one.",
+      );
+      return;
+    }
+
+    if (typeof payload.gameId !== "string") {
+      this.sendError(
+        client,
+        JOIN_ERROR_MESSAGES[JoinErrorCode.NOT_FOUND],
+        JoinErrorCode.NOT_FOUND,
+      );
+      return;
+    }
+
+    const gameId =
+      payload.gameId && (await this.gameService.resolveGameId(payload.gameId));
+
+    const validGame = gameId && (await this.gameService.validateGameId(gameId));
+    if (!gameId || !validGame) {
+      this.sendError(
+        client,
+        JOIN_ERROR_MESSAGES[JoinErrorCode.NOT_FOUND],
+        JoinErrorCode.NOT_FOUND,
+      );
+      return;
+    }
+
+    if (this.queuedClients.has(playerId)) {
+      await this.leaveMatchmaking(playerId);
+    }
+
+    const rejection = await this.attachSpectator(client, playerId, gameId);
+
+    if (rejection) {
+      this.sendError(client, JOIN_ERROR_MESSAGES[rejection], rejection);
+      return;
+    }
+
+    this.send(client, {
+      event: MessageEvent.SPECTATE_GAME,
+      payload: {
+        gameId,
+      },
+    });
+  }
+
+  /** Adds the player to the spectators of the game and subscribes the client to it. Returns the reason it was turned away, null if it is spectating */
+  private async attachSpectator(
+    client: WebSocket,
+    playerId: string,
+    gameId: string,
+  ) {
+    const rejection = await this.gameService.addSpectator(playerId, gameId);
+
+    if (rejection) {
+      return rejection;
+    }
+
+    this.clientGameIds.set(client, gameId);
+
+    await this.subscribeToGame(client);
+
+    await this.publishSpectators(gameId);
+
+    return null;
+  }
+
+  /** Returns the game if the client hosts it and it is still in the lobby, otherwise tells the client why not */
+  private async getHostedLobby(client: WebSocket) {
+    if (!this.verifySocket(client)) {
+      return null;
+    }
+
+    const gameId = this.clientGameIds.get(client) as string;
+    const playerId = this.clientPlayerIds.get(client) as string;
+
+    const game = await this.gameService.getGame(gameId);
+
+    if (!game) {
+      this.sendError(client, "Something went wrong, couldn't find the game");
+      return null;
+    }
+
+    if (game.hostId !== playerId) {
+      this.sendError(client, "Only the host of the game can manage the lobby");
+      return null;
+    }
+
+    if (game.status !== GameStatus.WAITING) {
+      this.sendError(
+        client,
+        "The lobby cannot be changed once the game has started",
+      );
+      return null;
+    }
+
+    return game;
+  }
+
+  /** Removes a player or spectator from the lobby and bans it for the rest of the game's lifetime */
+  private async handleKickPlayer(client: WebSocket, payload: any) {
+    const game = await this.getHostedLobby(client);
+
+    if (!game) {
+      return;
+    }
+
+    const { playerId } = payload;
+
+    if (typeof playerId !== "string" || playerId === game.hostId) {
+      this.sendError(client, "You can't kick that player");
+      return;
+    }
+
+    const kicked = await this.gameService.kickPlayer(game.id, playerId);
+
+    if (!kicked) {
+      this.sendError(client, "That player is not in the lobby anymore");
+      return;
+    }
+
+    // every instance relays the kick, the one holding the kicked socket detaches it
+    await this.pubClient.publish(
+      `game:${game.id}`,
+      JSON.stringify({
+        event: BroadcastEvent.PLAYER_KICKED,
+        payload: {
+          playerId,
+        },
+      }),
+    );
+  }
+
+  /** Hands the host role to another player of the lobby */
+  private async handleTransferHost(client: WebSocket, payload: any) {
+    const game = await this.getHostedLobby(client);
+
+    if (!game) {
+      return;
+    }
+
+    const { playerId } = payload;
+
+    const transferred =
+      typeof playerId === "string" &&
+      (await this.gameService.transferHost(game.id, playerId));
+
+    if (!transferred) {
+      this.sendError(
+        client,
+        "The host role can only go to a player in the lobby",
+      );
+      return;
+    }
+
+    await this.pubClient.publish(
+      `game:${game.id}`,
+      JSON.stringify({
+        event: BroadcastEvent.HOST_CHANGED,
+        payload: {
+          hostId: playerId,
+        },
+      }),
+    );
+  }
+
+  /** Locks or unlocks the lobby for new players */
+  private async handleLockLobby(client: WebSocket, payload: any) {
+    const game = await this.getHostedLobby(client);
+
+    if (!game) {
+      return;
+    }
+
+    const { isLocked } = payload;
+
+    if (typeof isLocked !== "boolean") {
+      this.sendError(client, "Invalid lock state");
+      return;
+    }
+
+    const updated = await this.gameService.setLobbyLocked(game.id, isLocked);
+
+    if (!updated) {
+      this.sendError(client, "Something went wrong, couldn't lock the lobby");
+      return;
+    }
+
+    await this.pubClient.publish(
+      `game:${game.id}`,
+      JSON.stringify({
+        event: BroadcastEvent.LOBBY_LOCKED,
+        payload: {
+          isLocked,
+        },
+      }),
+    );
+  }
+
+  /** Moderates a chat message and broadcasts it to the game. Chat is open in the lobby and on the results, not during a race */
+  private async handleSendChat(client: WebSocket, payload: any) {
+    if (!this.verifySocket(client)) {
+      return;
+    }
+
+    const gameId = this.clientGameIds.get(client) as string;
+    const playerId = this.clientPlayerIds.get(client) as string;
+
+    const game = await this.gameService.getGame(gameId);
+
+    if (
+      !game ||
+      (game.status !== GameStatus.WAITING &&
+        game.status !== GameStatus.COMPLETED)
+    ) {
+      this.sendError(client, "The chat is closed while the race is on");
+      return;
+    }
+
+    const moderated = this.chatService.moderate(payload.text);
+
+    if (!moderated.valid) {
+      this.sendError(client, moderated.reason);
+      return;
+    }
+
+    const allowed = await this.gameService.allowChatMessage(playerId);
+
+    if (!allowed) {
+      this.sendError(client, "Slow down! You're sending messages too fast");
+      return;
+    }
+
+    const message = await this.gameService.postChatMessage(
+      gameId,
+      playerId,
+      moderated.text,
+    );
+
+    await this.pubClient.publish(
+      `game:${gameId}`,
+      JSON.stringify({
+        event: BroadcastEvent.CHAT_MESSAGE,
+        payload: {
+          message,
+        },
+      }),
+    );
+  }
+
+  /** Sends the recent chat messages of the game, so that a late joiner or a refreshed page catches up */
+  private async handleGetChatHistory(client: WebSocket) {
+    if (!this.verifySocket(client)) {
+      return;
+    }
+
+    const gameId = this.clientGameIds.get(client) as string;
+    const messages = await this.gameService.getChatHistory(gameId);
+
+    this.send(client, {
+      event: MessageEvent.GET_CHAT_HISTORY,
+      payload: {
+        messages,
+      },
+    });
+  }
+
+  /** Sends a page of the public games and keeps the client posted about changes to them */
+  private async handleListPublicGames(client: WebSocket, payload: any) {
+    const requestedPage = Number(payload?.page);
+    const page =
+      Number.isInteger(requestedPage) && requestedPage > 0 ? requestedPage : 1;
+
+    const publicGames = await this.gameService.listPublicGames(
+      page,
+      PUBLIC_GAMES_PAGE_SIZE,
+    );
+
+    this.publicGameBrowsers.add(client);
+
+    this.send(client, {
+      event: MessageEvent.LIST_PUBLIC_GAMES,
+      payload: publicGames,
+    });
+  }
+
+  /** Tells the clients browsing the public games to refresh their page. A client that went on to a game stops browsing */
+  private notifyPublicGameBrowsers() {
+    for (const client of this.publicGameBrowsers) {
+      if (this.clientGameIds.get(client)) {
+        this.publicGameBrowsers.delete(client);
+        continue;
+      }
+
+      this.send(client, {
+        event: BroadcastEvent.PUBLIC_GAMES_UPDATED,
+        payload: {},
+      });
+    }
+  }
+
+  /** Broadcasts the current spectators of the game to everyone in it */
+  private async publishSpectators(gameId: string) {
+    const spectators = await this.gameService.getSpectators(gameId);
+
+    if (!spectators) {
+      return;
+    }
+
+    await this.pubClient.publish(
+      `game:${gameId}`,
+      JSON.stringify({
+        event: BroadcastEvent.SPECTATORS_UPDATED,
+        payload: {
+          spectators,
+        },
+      }),
+    );
   }
 
   /** Changes the player username and notifies other clients */
@@ -607,45 +1420,257 @@ export class CommunicationService {
       return;
     }
 
-    const playerId = this.clientPlayerIds.get(client) as string;
+    const playerId = this.clientPlayerIds.get(client) as string;
+    const gameId = this.clientGameIds.get(client) as string;
+
+    const { newUsername } = payload;
+
+    if (!newUsername) {
+      this.sendError(client, "Please provide a username");
+
+      return;
+    }
+
+    const userNameChanged = await this.gameService.changeUsername(
+      playerId,
+      newUsername,
+    );
+
+    if (userNameChanged) {
+      await this.pubClient.publish(
+        `game:${gameId}`,
+        JSON.stringify({
+          event: BroadcastEvent.USERNAME_CHANGED,
+          payload: {
+            updatedPlayer: {
+              playerId,
+              playerName: newUsername,
+            },
+          },
+        }),
+      );
+    } else {
+      this.logger.warn("The username was not updated");
+      this.sendError(
+        client,
+        "Something went wrong, couldn't update the username",
+      );
+    }
+  }
+
+  /** Updates the lobby settings of the game and notifies other clients. Only the host can update them while the game is waiting */
+  private async handleUpdateSettings(client: WebSocket, payload: any) {
+    if (!this.verifySocket(client)) {
+      return;
+    }
+
+    const gameId = this.clientGameIds.get(client) as string;
+    const playerId = this.clientPlayerIds.get(client) as string;
+
+    const game = await this.gameService.getGame(gameId);
+
+    if (!game) {
+      this.sendError(client, "Something went wrong, couldn't find the game");
+      return;
+    }
+
+    if (game.hostId !== playerId) {
+      this.sendError(
+        client,
+        "Only the host of the game can change the settings",
+      );
+      return;
+    }
+
+    if (game.status !== GameStatus.WAITING) {
+      this.sendError(
+        client,
+        "The settings cannot be changed once the game has started",
+      );
+      return;
+    }
+
+    const { settings } = payload;
+
+    if (!settings || typeof settings !== "object") {
+      this.sendError(client, "Please provide the settings to update");
+      return;
+    }
+
+    const changes: Partial<GameSettings> = {};
+
+    if (settings.mode !== undefined) {
+      if (!Object.values(GameMode).includes(settings.mode)) {
+        this.sendError(client, "Please pick a valid game mode");
+        return;
+      }
+
+      changes.mode = settings.mode;
+    }
+
+    if (settings.passageSource !== undefined) {
+      if (!Object.values(PassageSource).includes(settings.passageSource)) {
+        this.sendError(client, "Please pick a valid passage source");
+        return;
+      }
+
+      // the custom source needs a text, which is set through SET_CUSTOM_TEXT
+      if (settings.passageSource === PassageSource.CUSTOM && !game.gameText) {
+        this.sendError(client, "Paste a custom text to race on it");
+        return;
+      }
+
+      changes.passageSource = settings.passageSource;
+    }
+
+    // the numeric settings share the same validation against their limits
+    for (const key of [
+      "wordCount",
+      "countdown",
+      "maxPlayers",
+      "timeLimit",
+      "maxDuration",
+    ] as const) {
+      if (settings[key] === undefined) continue;
+
+      const value = Number(settings[key]);
+      const { min, max } = SETTINGS_LIMITS[key];
+
+      if (!Number.isInteger(value) || value < min || value > max) {
+        this.sendError(
+          client,
+          `${key} must be a whole number between ${min} and ${max}`,
+        );
+        return;
+      }
+
+      changes[key] = value;
+    }
+
+    if (settings.isPublic !== undefined) {
+      if (typeof settings.isPublic !== "boolean") {
+        this.sendError(client, "Please pick whether the game is public");
+        return;
+      }
+
+      changes.isPublic = settings.isPublic;
+    }
+
+    if (settings.autoStart !== undefined) {
+      if (typeof settings.autoStart !== "boolean") {
+        this.sendError(client, "Please pick whether the game starts by itself");
+        return;
+      }
+
+      changes.autoStart = settings.autoStart;
+    }
+
+    if (
+      changes.maxPlayers !== undefined &&
+      changes.maxPlayers < game.playerIds.length
+    ) {
+      this.sendError(
+        client,
+        "The room size cannot be smaller than the current lineup",
+      );
+      return;
+    }
+
+    const updatedSettings = await this.gameService.updateSettings(
+      gameId,
+      changes,
+    );
+
+    if (updatedSettings) {
+      await this.pubClient.publish(
+        `game:${gameId}`,
+        JSON.stringify({
+          event: BroadcastEvent.SETTINGS_UPDATED,
+          payload: {
+            settings: updatedSettings,
+          },
+        }),
+      );
+    } else {
+      this.logger.warn("The settings were not updated");
+      this.sendError(
+        client,
+        "Something went wrong, couldn't update the settings",
+      );
+    }
+  }
+
+  /** Validates and normalizes the custom text sent by the host, stores it as the game text and notifies other clients */
+  private async handleSetCustomText(client: WebSocket, payload: any) {
+    if (!this.verifySocket(client)) {
+      return;
+    }
+
     const gameId = this.clientGameIds.get(client) as string;
+    const playerId = this.clientPlayerIds.get(client) as string;
 
-    const { newUsername } = payload;
+    const game = await this.gameService.getGame(gameId);
 
-    if (!newUsername) {
-      this.sendError(client, "Please provide a username");
+    if (!game) {
+      this.sendError(client, "Something went wrong, couldn't find the game");
+      return;
+    }
 
+    if (game.hostId !== playerId) {
+      this.sendError(client, "Only the host of the game can set a custom text");
       return;
     }
 
-    const userNameChanged = await this.gameService.changeUsername(
-      playerId,
-      newUsername,
+    if (game.status !== GameStatus.WAITING) {
+      this.sendError(
+        client,
+        "The text cannot be changed once the game has started",
+      );
+      return;
+    }
+
+    const normalized = this.passageService.normalizeCustomText(payload.text);
+
+    if (!normalized.valid) {
+      this.sendError(client, normalized.reason);
+      return;
+    }
+
+    const updatedSettings = await this.gameService.setCustomText(
+      gameId,
+      normalized.text,
     );
 
-    if (userNameChanged) {
+    if (updatedSettings) {
       await this.pubClient.publish(
         `game:${gameId}`,
         JSON.stringify({
-          event: BroadcastEvent.USERNAME_CHANGED,
+          event: BroadcastEvent.CUSTOM_TEXT_UPDATED,
           payload: {
-            updatedPlayer: {
-              playerId,
-              playerName: newUsername,
-            },
+            customText: normalized.text,
+          },
+        }),
+      );
+
+      await this.pubClient.publish(
+        `game:${gameId}`,
+        JSON.stringify({
+          event: BroadcastEvent.SETTINGS_UPDATED,
+          payload: {
+            settings: updatedSettings,
           },
         }),
       );
     } else {
-      this.logger.warn("The username was not updated");
+      this.logger.warn("The custom text was not updated");
       this.sendError(
         client,
-        "Something went wrong, couldn't update the username",
+        "Something went wrong, couldn't update the custom text",
       );
     }
   }
 
-  /** Updates the game status to STARTING and broadcasts the countdown. Updates the game to IN_PROGRESS after the countdown. */
+  /** Lets the host start the game once it has enough players */
   private async handleStartGame(client: WebSocket): Promise<void> {
     if (!this.verifySocket(client)) {
       return;
@@ -673,6 +1698,71 @@ export class CommunicationService {
       return;
     }
 
+    // the host starting the game counts as being ready, everyone else has to say so
+    const game = (await this.gameService.getGame(gameId)) as Game;
+    const unready = game.playerIds.filter(
+      (id) => id !== hostId && !game.readyIds.includes(id),
+    );
+
+    if (unready.length > 0) {
+      this.sendError(
+        client,
+        `Waiting for ${unready.length} ${unready.length === 1 ? "player" : "players"} to get ready`,
+      );
+      return;
+    }
+
+    await this.startRace(gameId, client);
+  }
+
+  /** Marks the player ready or not and starts the race once everyone is ready, if the host turned on auto-start */
+  private async handleSetReady(client: WebSocket, payload: any) {
+    if (!this.verifySocket(client)) {
+      return;
+    }
+
+    const gameId = this.clientGameIds.get(client) as string;
+    const playerId = this.clientPlayerIds.get(client) as string;
+
+    if (typeof payload.ready !== "boolean") {
+      this.sendError(client, "Invalid ready state");
+      return;
+    }
+
+    const game = await this.gameService.setPlayerReady(
+      gameId,
+      playerId,
+      payload.ready,
+    );
+
+    if (!game) {
+      this.sendError(client, "You can only get ready while in the lobby");
+      return;
+    }
+
+    await this.pubClient.publish(
+      `game:${gameId}`,
+      JSON.stringify({
+        event: BroadcastEvent.READY_UPDATED,
+        payload: {
+          readyIds: game.readyIds,
+        },
+      }),
+    );
+
+    const allReady = game.playerIds.every((id) => game.readyIds.includes(id));
+
+    if (
+      game.settings.autoStart &&
+      allReady &&
+      game.playerIds.length >= MIN_SIZE
+    ) {
+      await this.startRace(gameId, null);
+    }
+  }
+
+  /** Moves the game to STARTING and runs the countdown before the race goes in progress. The host, if any, is told when the game fails to start */
+  private async startRace(gameId: string, host: WebSocket | null) {
     // change the status of the game to starting.
     const success = await this.gameService.updateGameStatus(
       gameId,
@@ -683,121 +1773,192 @@ export class CommunicationService {
       LoggingService.getInstance().error(
         "The game status could not be updated to STARTING",
       );
-      this.sendError(client, "Failed to start the game. Please try again.");
+      if (host) {
+        this.sendError(host, "Failed to start the game. Please try again.");
+      }
       return;
     }
 
-    // broadcast to other players.
+    // the clients count down to the deadline themselves
+    const game = (await this.gameService.getGame(gameId)) as Game;
+    const startsAt = game.countdownEndsAt as number;
+
+    await this.schedulerService.schedule(
+      ScheduledJobType.START_RACE,
+      gameId,
+      startsAt,
+    );
+
     await this.pubClient.publish(
       `game:${gameId}`,
       JSON.stringify({
         event: BroadcastEvent.GAME_STARTING,
-        payload: {},
+        payload: {
+          startsAt,
+        },
       }),
     );
+  }
 
-    // start the countdown.
-    let count = 10;
-
-    const countdownInterval = setInterval(async () => {
-      // Send current count
-      await this.pubClient.publish(
-        `game:${gameId}`,
-        JSON.stringify({
-          event: BroadcastEvent.GAME_STARTING_COUNTDOWN,
-          payload: {
-            count,
-          },
-        }),
-      );
+  /** Puts the game in progress once its countdown ran out and schedules the end of its clock */
+  private async beginRace(gameId: string) {
+    const success = await this.gameService.updateGameStatus(
+      gameId,
+      GameStatus.IN_PROGRESS,
+    );
 
-      // Decrement count
-      count--;
+    // the countdown may have been cancelled right before it ran out
+    if (!success) {
+      this.logger.warn(`The countdown of ${gameId} ended without a race`);
+      return;
+    }
 
-      // Check if countdown is complete
-      if (count < 0) {
-        clearInterval(countdownInterval);
+    const game = (await this.gameService.getGame(gameId)) as Game;
 
-        const success = await this.gameService.updateGameStatus(
-          gameId,
-          GameStatus.IN_PROGRESS,
-        );
+    // start the game, the clients time the race from the server's start epoch
+    await this.pubClient.publish(
+      `game:${gameId}`,
+      JSON.stringify({
+        event: BroadcastEvent.GAME_STARTED,
+        payload: {
+          message: "Game started!",
+          startedAt: game.startedAt,
+        },
+      }),
+    );
 
-        if (!success) {
-          LoggingService.getInstance().error(
-            "Couldn't update the game status to IN_PROGRESS",
-          );
-          this.sendError(client, "Failed to start the game. Please try again.");
-          return;
-        }
+    // the race is ended by the server once the clock runs out, a finish race only if someone is still typing by then
+    const timeLimit =
+      game.settings.mode === GameMode.TIMED
+        ? game.settings.timeLimit
+        : game.settings.maxDuration;
 
-        // start the game
-        await this.pubClient.publish(
-          `game:${gameId}`,
-          JSON.stringify({
-            event: BroadcastEvent.GAME_STARTED,
-            payload: {
-              message: "Game started!",
-            },
-          }),
-        );
-      }
-    }, 1000);
+    await this.schedulerService.schedule(
+      ScheduledJobType.TIME_UP,
+      gameId,
+      (game.startedAt as number) + timeLimit * 1000,
+    );
   }
 
-  /** Sends the game text for the given game */
-  private async handleGetGameText(client: WebSocket) {
-    if (!this.verifySocket(client)) {
+  /** Broadcasts TIME_UP once the time limit of a race expires and completes the game after the clients had a chance to submit their results */
+  private async endRaceClock(gameId: string) {
+    const game = await this.gameService.getGame(gameId);
+
+    if (!game || game.status !== GameStatus.IN_PROGRESS) {
       return;
     }
 
-    const gameId = this.clientGameIds.get(client) as string;
+    await this.pubClient.publish(
+      `game:${gameId}`,
+      JSON.stringify({
+        event: BroadcastEvent.TIME_UP,
+        payload: {},
+      }),
+    );
+
+    await this.schedulerService.schedule(
+      ScheduledJobType.COMPLETE_GAME,
+      gameId,
+      Date.now() + TIMED_RESULT_GRACE,
+    );
+  }
 
-    const gameText = await this.gameService.getGameText(gameId);
+  /** Cancels the countdown of a starting game once its host left or too few players remain, and puts it back in the lobby */
+  private async cancelAbandonedCountdown(gameId: string, hostLeft: boolean) {
+    const game = await this.gameService.getGame(gameId);
 
-    if (gameText) {
-      this.send(client, {
-        event: MessageEvent.GET_GAME_TEXT,
-        payload: {
-          gameText,
-        },
-      });
-    } else {
-      LoggingService.getInstance().warn("Game text is null");
+    if (
+      !game ||
+      game.status !== GameStatus.STARTING ||
+      (!hostLeft && game.playerIds.length >= MIN_SIZE)
+    ) {
+      return;
+    }
+
+    const cancelled = await this.gameService.cancelCountdown(gameId);
+
+    if (!cancelled) {
+      return;
     }
+
+    await this.schedulerService.cancel(ScheduledJobType.START_RACE, gameId);
+
+    await this.pubClient.publish(
+      `game:${gameId}`,
+      JSON.stringify({
+        event: BroadcastEvent.COUNTDOWN_CANCELLED,
+        payload: {},
+      }),
+    );
   }
 
-  /** Sends the game players with their initial position */
-  private async handleGetGamePlayers(client: WebSocket) {
-    if (!this.verifySocket) {
+  /** Marks the game as COMPLETED, rates the race and notifies the clients. The results are finalized first, the players who didn't finish are recorded as DNF. Does nothing if the game is already completed */
+  private async completeGame(gameId: string) {
+    const game = await this.gameService.getGame(gameId);
+
+    if (!game || game.status === GameStatus.COMPLETED) {
       return;
     }
 
-    const gameId = this.clientGameIds.get(client) as string;
+    await this.gameService.finalizeResults(gameId);
 
-    const players = await this.gameService.getGamePlayers(gameId);
+    const finished = await this.gameService.markGameFinished(gameId);
 
-    if (players) {
-      this.send(client, {
-        event: MessageEvent.GET_GAME_PLAYERS,
-        payload: {
-          players,
-        },
-      });
+    // a game completed concurrently was already rated and announced
+    if (!finished) {
+      return;
     }
+
+    // a race finished by everyone before its clock ran out
+    await this.schedulerService.cancel(ScheduledJobType.TIME_UP, gameId);
+
+    await this.gameService.applyRatings(gameId);
+
+    await this.pubClient.publish(
+      `game:${gameId}`,
+      JSON.stringify({
+        event: BroadcastEvent.FINISH_GAME,
+        payload: {},
+      }),
+    );
   }
 
-  /** Broadcasts player position updates */
+  /** Validates a player position update and broadcasts it if it was accepted */
   private async handlePlayerUpdate(client: WebSocket, payload: any) {
     if (!this.verifySocket(client)) {
       return;
     }
 
-    const playerId = this.clientPlayerIds.get(client);
-    const gameId = this.clientGameIds.get(client);
+    const playerId = this.clientPlayerIds.get(client) as string;
+    const gameId = this.clientGameIds.get(client) as string;
+
+    const game = await this.gameService.getGame(gameId);
 
-    // verify that the payload has the required fields
-    if (!payload.position && isNaN(Number(payload.position))) {
+    // spectators don't race
+    if (
+      !game ||
+      game.status !== GameStatus.IN_PROGRESS ||
+      !game.playerIds.includes(playerId)
+    ) {
+      return;
+    }
+
+    // the keystrokes typed since the last update are kept to resume the race after a reconnect
+    if (payload.keystrokes !== undefined) {
+      await this.recordKeystrokes(gameId, playerId, payload);
+    }
+
+    // only plausible positions are passed on to the others
+    const accepted = await this.gameService.acceptPlayerPosition(
+      game,
+      playerId,
+      payload.position,
+    );
+
+    if (!accepted) {
+      this.logger.warn(
+        `Rejected the position ${payload.position} from ${playerId}`,
+      );
       return;
     }
 
@@ -814,7 +1975,38 @@ export class CommunicationService {
     );
   }
 
-  /** Updates the game result by adding the incoming client. If all the players are finished, updates the game status */
+  /** Stores the keystrokes of a player update, starting at the given offset of the player's log. A malformed batch is ignored */
+  private async recordKeystrokes(
+    gameId: string,
+    playerId: string,
+    payload: any,
+  ) {
+    const { keystrokes, offset } = payload;
+
+    if (
+      !Array.isArray(keystrokes) ||
+      !Number.isInteger(offset) ||
+      offset < 0 ||
+      offset + keystrokes.length > MAX_KEYSTROKES ||
+      !keystrokes.every((entry) => this.scoringService.isValidEntry(entry))
+    ) {
+      this.logger.warn(`Ignored the malformed keystrokes from ${playerId}`);
+      return;
+    }
+
+    const recorded = await this.gameService.recordKeystrokes(
+      gameId,
+      playerId,
+      offset,
+      keystrokes,
+    );
+
+    if (!recorded) {
+      this.logger.warn(`The keystroke log of ${playerId} has a gap`);
+    }
+  }
+
+  /** Scores the keystroke log of the incoming client and adds it to the game result. If all the players are finished, updates the game status */
   private async handleFinishGame(client: WebSocket, payload: any) {
     if (!this.verifySocket(client)) {
       return;
@@ -823,73 +2015,94 @@ export class CommunicationService {
     const playerId = this.clientPlayerIds.get(client) as string;
     const gameId = this.clientGameIds.get(client) as string;
 
-    // sanitize the payload
-    const wpm = Number(payload.wpm);
-    const accuracy = Number(payload.accuracy);
-    const time = Number(payload.time);
+    // results submitted after the race was completed are ignored
+    const game = await this.gameService.getGame(gameId);
 
-    if (Number.isNaN(wpm) || Number.isNaN(accuracy) || Number.isNaN(time)) {
-      LoggingService.getInstance().error(
-        `Invalid request for finishing the game. Received wpm: ${wpm}, accuracy: ${accuracy}, time: ${time}`,
-      );
+    if (!game || game.status !== GameStatus.IN_PROGRESS) {
+      this.sendError(client, "The race is already over");
+      return;
+    }
 
-      this.sendError(
-        client,
-        "Failed to finish the game. Invalid performance metrics provided.",
+    if (!game.playerIds.includes(playerId)) {
+      this.sendError(client, "Spectators can't finish the race");
+      return;
+    }
+
+    // the metrics are computed from the keystroke log, the client is never trusted with them
+    const scored = this.scoringService.score(payload.keystrokes, game);
+
+    if (!scored.valid) {
+      LoggingService.getInstance().warn(
+        `Rejected the keystroke log of ${playerId}: ${scored.reason}`,
       );
 
+      this.sendError(client, `Failed to finish the game. ${scored.reason}.`);
+
       return;
     }
 
-    const playerData = {
-      wpm,
-      accuracy,
-      time,
-    };
+    const playerData = scored.result;
+
+    // a reported paste takes precedence over what the log reveals
+    const flagged =
+      (await this.gameService.getPlayerFlag(gameId, playerId)) ??
+      this.cheatDetectionService.inspect(payload.keystrokes);
+
+    if (flagged) {
+      this.logger.warn(`Flagged the result of ${playerId}: ${flagged}`);
+    }
+
+    // save the game data, a duplicate submission is ignored
+    const recorded = await this.gameService.finishGame(
+      playerId,
+      playerData,
+      gameId,
+      flagged,
+      scored.dnf,
+    );
 
-    // save the game data
-    await this.gameService.finishGame(playerId, playerData, gameId);
+    if (!recorded) {
+      return;
+    }
 
     const allPlayersFinished =
       await this.gameService.checkAllPlayersFinished(gameId);
 
     if (allPlayersFinished) {
-      await this.gameService.markGameFinished(gameId);
-
-      await this.pubClient.publish(
-        `game:${gameId}`,
-        JSON.stringify({
-          event: BroadcastEvent.FINISH_GAME,
-          payload: {},
-        }),
-      );
+      await this.completeGame(gameId);
     }
   }
 
-  /** Sends the gameResult to the client */
-  private async handleGetGameResult(client: WebSocket) {
-    // ensure that this connection is valid
+  /** Flags the player when the client reports a paste or drop into the typing area during a race */
+  private async handleReportInputEvent(client: WebSocket, payload: any) {
     if (!this.verifySocket(client)) {
       return;
     }
 
+    const playerId = this.clientPlayerIds.get(client) as string;
     const gameId = this.clientGameIds.get(client) as string;
 
-    // fetch the game result
-    const gameResult = await this.gameService.getGameResult(gameId);
+    if (payload.type !== "paste" && payload.type !== "drop") {
+      return;
+    }
 
-    if (gameResult) {
-      this.send(client, {
-        event: MessageEvent.GET_GAME_RESULT,
-        payload: {
-          hostId: gameResult.hostId,
-          players: gameResult.players,
-        },
-      });
+    const game = await this.gameService.getGame(gameId);
+
+    if (
+      !game ||
+      game.status !== GameStatus.IN_PROGRESS ||
+      !game.playerIds.includes(playerId)
+    ) {
+      return;
     }
+
+    await this.gameService.flagPlayer(gameId, playerId, FlagReason.PASTE);
+
+    this.logger.warn(`${playerId} reported a ${payload.type} in ${gameId}`);
   }
 
-  private async handleRestartGame(client: WebSocket) {
+  /** Restarts the game with the same players. The host can choose to race on the same custom text again */
+  private async handleRestartGame(client: WebSocket, payload: any) {
     // verify this client
     if (!this.verifySocket(client)) {
       return;
@@ -907,7 +2120,10 @@ export class CommunicationService {
     }
 
     // create a new game with the same players and return the new id
-    const newGameId = await this.gameService.restartGame(gameId);
+    const newGameId = await this.gameService.restartGame(
+      gameId,
+      payload.keepCustomText === true,
+    );
 
     await this.pubClient.publish(
       `game:${gameId}`,
@@ -967,6 +2183,9 @@ export class CommunicationService {
 
     let updatedHostId = null;
 
+    const wasSpectator = await this.isSpectator(gameId, playerId);
+    const wasHost = (await this.gameService.getHostId(gameId)) === playerId;
+
     updatedHostId = await this.gameService.removePlayerFromGame(
       playerId,
       gameId,
@@ -988,7 +2207,9 @@ export class CommunicationService {
     this.clientGameIds.delete(client);
 
     // update others if there is a new host, if there was no host, the game has no players, no point in broadcasting it
-    if (updatedHostId) {
+    if (updatedHostId && wasSpectator) {
+      await this.publishSpectators(gameId);
+    } else if (updatedHostId) {
       const message = JSON.stringify({
         event: BroadcastEvent.PLAYER_LEFT,
         payload: {
@@ -997,6 +2218,10 @@ export class CommunicationService {
         },
       });
       await this.pubClient.publish(`game:${gameId}`, message);
+
+      await this.cancelAbandonedCountdown(gameId, wasHost);
+
+      await this.completeIfOthersFinished(gameId);
     }
   }
 }
@@ -1,23 +1,59 @@
+import { randomInt } from "crypto";
 import { v4 as uuid } from "uuid";
 import {
+  CHAT_RATE_LIMIT,
+  ChatMessage,
+  DEFAULT_SETTINGS,
   FinishGamePayload,
+  FlagReason,
   Game,
   GameInfo,
   GameResult,
+  GameMode,
+  GameSettings,
   GameStatus,
+  INVITE_CODE_ALPHABET,
+  INVITE_CODE_LENGTH,
+  JoinErrorCode,
+  KeystrokeEntry,
+  MATCHMAKING_FILL_TIMEOUT,
+  MAX_SIZE,
+  MIN_SIZE,
+  PassageSource,
   Player,
+  PROGRESS_ALLOWANCE,
+  PROVISIONAL_RACES,
+  PublicGameSummary,
+  TIMED_WORDS_PER_MINUTE,
 } from "../types";
 import { StorageService } from "./storageService";
-import { generate } from "random-words";
 import { LoggingService } from "./loggingService";
+import { PassageService } from "./passageService";
+import { RatedEntrant, RatingService } from "./ratingService";
+import { ScoringService } from "./scoringService";
+
+/** How many random invite codes are tried before giving up on a game */
+const MAX_INVITE_CODE_ATTEMPTS = 10;
+
+const INVITE_CODE_PATTERN = new RegExp(
+  `^[${INVITE_CODE_ALPHABET}]{${INVITE_CODE_LENGTH}}$`,
+);
 
 /** Manages game/player related operations */
 export class GameService {
   private storageService: StorageService;
+  private passageService: PassageService;
+  private ratingService: RatingService;
+  private scoringService: ScoringService;
   private logger = LoggingService.getInstance();
+  private maxProgressWpm: number; // the fastest a player may advance between progress updates
 
   public constructor() {
     this.storageService = StorageService.getInstance();
+    this.passageService = PassageService.getInstance();
+    this.ratingService = RatingService.getInstance();
+    this.scoringService = ScoringService.getInstance();
+    this.maxProgressWpm = Number(process.env.PLAYER_UPDATE_MAX_WPM) || 300;
   }
 
   /**
@@ -36,23 +72,32 @@ export class GameService {
         return;
       }
 
-      const gameObj = await this.storageService.getGameObj(gameId);
-
-      // the host is the only player of the game
-      if (gameObj.hostId === playerId && gameObj.playerIds.length === 1) {
-        await this.storageService.deleteGameObj(gameId);
+      const gameObj = await this.storageService.updateGameObj(
+        gameId,
+        (gameObj) => {
+          gameObj.playerIds = gameObj.playerIds.filter((id) => id !== playerId);
+          gameObj.spectatorIds = gameObj.spectatorIds.filter(
+            (id) => id !== playerId,
+          );
+          gameObj.readyIds = gameObj.readyIds.filter((id) => id !== playerId);
+          gameObj.disconnectedIds = gameObj.disconnectedIds.filter(
+            (id) => id !== playerId,
+          );
+
+          // reassign the host if there are other players in the game
+          if (gameObj.hostId === playerId && gameObj.playerIds.length > 0) {
+            gameObj.hostId = gameObj.playerIds[0];
+          }
+
+          return gameObj;
+        },
+      );
+
+      // the game was deleted with its last player
+      if (!gameObj || gameObj.playerIds.length === 0) {
         return null;
-      } else if (gameObj.hostId === playerId) {
-        // there are other players in the game other than the host
-        gameObj.playerIds = gameObj.playerIds.filter((id) => id !== playerId);
-        gameObj.hostId = gameObj.playerIds[0]; // reassign the host
-      } else {
-        // any other player but not the host
-        gameObj.playerIds = gameObj.playerIds.filter((id) => id !== playerId);
       }
 
-      await this.storageService.saveGameObj(gameObj);
-
       // return the updated host of the game.
       return gameObj.hostId;
     }
@@ -60,6 +105,123 @@ export class GameService {
     return null;
   }
 
+  /**
+   * Removes a player or spectator from the lobby of the given gameId and bans it from coming back.
+   * The player is no longer offered to rejoin the game. Returns false if it wasn't in the lobby.
+   * @throws if the given gameId does not exist
+   */
+  public async kickPlayer(gameId: string, playerId: string) {
+    const gameObj = await this.storageService.updateGameObj(
+      gameId,
+      (gameObj) => {
+        if (
+          gameObj.status !== GameStatus.WAITING ||
+          gameObj.hostId === playerId ||
+          (!gameObj.playerIds.includes(playerId) &&
+            !gameObj.spectatorIds.includes(playerId))
+        ) {
+          return null;
+        }
+
+        gameObj.playerIds = gameObj.playerIds.filter((id) => id !== playerId);
+        gameObj.spectatorIds = gameObj.spectatorIds.filter(
+          (id) => id !== playerId,
+        );
+        gameObj.readyIds = gameObj.readyIds.filter((id) => id !== playerId);
+        gameObj.bannedIds.push(playerId);
+
+        return gameObj;
+      },
+    );
+
+    if (!gameObj) {
+      return false;
+    }
+
+    if (await this.validatePlayerId(playerId)) {
+      await this.storageService.updatePlayerObj(playerId, (playerObj) => {
+        if (playerObj.currentGameId !== gameId) {
+          return null;
+        }
+
+        playerObj.currentGameId = null;
+        return playerObj;
+      });
+    }
+
+    return true;
+  }
+
+  /**
+   * Hands the host role of the given gameId to another player of the lobby. Returns false if it isn't a player of the game.
+   * @throws if the given gameId does not exist
+   */
+  public async transferHost(gameId: string, newHostId: string) {
+    const gameObj = await this.storageService.updateGameObj(
+      gameId,
+      (gameObj) => {
+        if (
+          gameObj.status !== GameStatus.WAITING ||
+          !gameObj.playerIds.includes(newHostId)
+        ) {
+          return null;
+        }
+
+        gameObj.hostId = newHostId;
+        return gameObj;
+      },
+    );
+
+    return gameObj !== null;
+  }
+
+  /**
+   * Locks or unlocks the lobby of the given gameId. Returns false if the game has already left the lobby.
+   * @throws if the given gameId does not exist
+   */
+  public async setLobbyLocked(gameId: string, isLocked: boolean) {
+    const gameObj = await this.storageService.updateGameObj(
+      gameId,
+      (gameObj) => {
+        if (gameObj.status !== GameStatus.WAITING) {
+          return null;
+        }
+
+        gameObj.isLocked = isLocked;
+        return gameObj;
+      },
+    );
+
+    return gameObj !== null;
+  }
+
+  /**
+   * Marks a player of the lobby as ready or not. Returns the updated game, null if the player isn't waiting in it.
+   * @throws if the given gameId does not exist
+   */
+  public async setPlayerReady(
+    gameId: string,
+    playerId: string,
+    ready: boolean,
+  ) {
+    return this.storageService.updateGameObj(gameId, (gameObj) => {
+      if (
+        gameObj.status !== GameStatus.WAITING ||
+        !gameObj.playerIds.includes(playerId)
+      ) {
+        return null;
+      }
+
+      gameObj.readyIds = gameObj.readyIds.filter((id) => id !== playerId);
+
+      if (ready) {
+        gameObj.readyIds.push(playerId);
+      }
+
+      return gameObj;
+    });
+  }
+
   /** Nullifies the currentGameId of the given player */
   public async resetPlayerCurrentGameId(playerId: string) {
     // nullify the gameId from the player object
@@ -70,9 +232,10 @@ export class GameService {
       return;
     }
 
-    const playerObj = await this.storageService.getPlayerObj(playerId);
-    playerObj.currentGameId = null;
-    await this.storageService.savePlayerObj(playerObj);
+    await this.storageService.updatePlayerObj(playerId, (playerObj) => {
+      playerObj.currentGameId = null;
+      return playerObj;
+    });
   }
 
   /** Validates whether the given playerId exists or not */
@@ -85,6 +248,42 @@ export class GameService {
     return this.storageService.validateGameId(gameId);
   }
 
+  /**
+   * Resolves what a player typed in to join a game, either an invite code or a full gameId.
+   * Codes are matched regardless of case, spaces and dashes. Returns null for an unknown code.
+   */
+  public async resolveGameId(codeOrGameId: string) {
+    const trimmed = codeOrGameId.trim();
+    const inviteCode = trimmed.replace(/[\s-]/g, "").toUpperCase();
+
+    if (INVITE_CODE_PATTERN.test(inviteCode)) {
+      return this.storageService.getGameIdByInviteCode(inviteCode);
+    }
+
+    return trimmed;
+  }
+
+  /**
+   * Reserves a random unused invite code for the given gameId.
+   * @throws if no free code was found
+   */
+  private async createInviteCode(gameId: string) {
+    for (let attempt = 0; attempt < MAX_INVITE_CODE_ATTEMPTS; attempt++) {
+      let inviteCode = "";
+
+      for (let i = 0; i < INVITE_CODE_LENGTH; i++) {
+        inviteCode +=
+          INVITE_CODE_ALPHABET[randomInt(INVITE_CODE_ALPHABET.length)];
+      }
+
+      if (await this.storageService.reserveInviteCode(inviteCode, gameId)) {
+        return inviteCode;
+      }
+    }
+
+    throw new Error(`Could not find a free invite code for game ${gameId}`);
+  }
+
   /** Validates whether the given gameResultId exists or not */
   public async validateGameResultId(gameResultId: string) {
     return this.storageService.validateGameResultId(gameResultId);
@@ -123,10 +322,15 @@ export class GameService {
       const validGameId = await this.storageService.validateGameId(gameId);
 
       if (!validGameId) {
-        // the game doesn't exist now, update the playerObj
-        playerObj.currentGameId = null;
-
-        await this.storageService.savePlayerObj(playerObj);
+        // the game doesn't exist now, update the playerObj unless it moved on to another game meanwhile
+        await this.storageService.updatePlayerObj(playerId, (playerObj) => {
+          if (playerObj.currentGameId !== gameId) {
+            return null;
+          }
+
+          playerObj.currentGameId = null;
+          return playerObj;
+        });
         return gameInfo;
       } else {
         const gameObj = await this.storageService.getGameObj(gameId);
@@ -143,38 +347,8 @@ export class GameService {
     return gameInfo;
   }
 
-  /**
-   * Adds an existing user to a game. Updates its currentGameId and pushes the player to the game.
-   * @throws if the playerId or gameId do not exist
-   */
-  private async updateGamePlayer(playerId: string, gameId: string) {
-    // update the gameId for the player
-    const playerObj = await this.storageService.getPlayerObj(playerId);
-
-    playerObj.currentGameId = gameId;
-
-    await this.storageService.savePlayerObj(playerObj);
-
-    // add the player to the game
-    const gameObj = await this.storageService.getGameObj(gameId);
-
-    gameObj.playerIds.push(playerObj.id);
-
-    await this.storageService.saveGameObj(gameObj);
-  }
-
-  /**
-   * Creates a new player and adds it to the game.
-   * @throws if the given gameId does not exist.
-   */
+  /** Creates a new player that is a part of the given game */
   private async createGamePlayer(playerId: string, gameId: string) {
-    // add the player to the game.
-    const gameObj = await this.storageService.getGameObj(gameId);
-
-    gameObj.playerIds.push(playerId);
-
-    await this.storageService.saveGameObj(gameObj);
-
     // create the player with the given id
     const newPlayer: Player = {
       id: playerId,
@@ -185,13 +359,6 @@ export class GameService {
     await this.storageService.savePlayerObj(newPlayer);
   }
 
-  /** Updates the gameId of the player and adds the player to the game */
-  public async rejoinPlayer(playerId: string, gameId: string) {
-    // as the player is rejoining, the earlier checks would have ensured the validity of the player. Hence, it can safely be updated directly
-
-    await this.updateGamePlayer(playerId, gameId);
-  }
-
   /** Returns the basic info of the given playerId if valid, null otherwise */
   public async getPlayerInfo(playerId: string) {
     const validPlayer = await this.validatePlayerId(playerId);
@@ -206,15 +373,30 @@ export class GameService {
     return null;
   }
 
-  /** Creates a new game with the specified user as host */
-  public async createGame(hostId: string) {
+  /** Creates a new game with the specified user as host. The given settings override the defaults */
+  public async createGame(
+    hostId: string,
+    settings: Partial<GameSettings> = {},
+  ) {
+    const gameId = uuid();
+
     // create the new game object
     const newGame: Game = {
-      id: uuid(),
+      id: gameId,
+      inviteCode: await this.createInviteCode(gameId),
       hostId,
       playerIds: [], // the current host will be added by the addPlayer function
+      spectatorIds: [],
+      bannedIds: [],
+      readyIds: [],
+      disconnectedIds: [],
+      isLocked: false,
       status: GameStatus.WAITING,
       gameText: "",
+      settings: { ...DEFAULT_SETTINGS, ...settings },
+      passage: null,
+      startedAt: null,
+      countdownEndsAt: null,
       createdAt: new Date(),
     };
 
@@ -228,19 +410,173 @@ export class GameService {
   }
 
   /**
-   * Creates a player object if it doesn't exist and adds the player to the given gameId
+   * Admits the player to the given gameId and creates the player object if it doesn't exist.
+   * The status and the capacity of the game are checked in the same transaction that adds the player.
+   * Returns the reason the player was turned away, null if it joined, and whether it was added or already a player of the game.
+   * @throws if the given gameId does not exist
    */
   public async addPlayer(playerId: string, gameId: string) {
+    let rejection = null as JoinErrorCode | null;
+
+    const updatedGame = await this.storageService.updateGameObj(
+      gameId,
+      (gameObj) => {
+        rejection = null;
+
+        if (gameObj.playerIds.includes(playerId)) {
+          return null;
+        }
+
+        if (gameObj.bannedIds.includes(playerId)) {
+          rejection = JoinErrorCode.BANNED;
+        } else if (gameObj.status === GameStatus.COMPLETED) {
+          rejection = JoinErrorCode.FINISHED;
+        } else if (gameObj.status !== GameStatus.WAITING) {
+          rejection = JoinErrorCode.ALREADY_STARTED;
+        } else if (gameObj.isLocked) {
+          rejection = JoinErrorCode.LOCKED;
+        } else if (gameObj.playerIds.length >= gameObj.settings.maxPlayers) {
+          rejection = JoinErrorCode.FULL;
+        }
+
+        if (rejection) {
+          return null;
+        }
+
+        gameObj.playerIds.push(playerId);
+        return gameObj;
+      },
+    );
+
+    if (rejection) {
+      return { rejection, isNewPlayer: false };
+    }
+
     // if the user exists, then we update it or create a new one
     const userExists = await this.storageService.validatePlayerId(playerId);
 
     if (userExists) {
-      // update the player object and add the userId to the game
-      await this.updateGamePlayer(playerId, gameId);
+      await this.storageService.updatePlayerObj(playerId, (playerObj) => {
+        playerObj.currentGameId = gameId;
+        return playerObj;
+      });
     } else {
-      // or create a new player, also adding the userId to the game
       await this.createGamePlayer(playerId, gameId);
     }
+
+    return { rejection: null, isNewPlayer: updatedGame !== null };
+  }
+
+  /**
+   * Adds the player to the spectators of the given gameId and creates the player object if it doesn't exist.
+   * A race can be watched until it is completed. Returns the reason the player was turned away, null if it is spectating.
+   * @throws if the given gameId does not exist
+   */
+  public async addSpectator(playerId: string, gameId: string) {
+    let rejection = null as JoinErrorCode | null;
+
+    await this.storageService.updateGameObj(gameId, (gameObj) => {
+      rejection = null;
+
+      if (gameObj.bannedIds.includes(playerId)) {
+        rejection = JoinErrorCode.BANNED;
+        return null;
+      }
+
+      if (gameObj.status === GameStatus.COMPLETED) {
+        rejection = JoinErrorCode.FINISHED;
+        return null;
+      }
+
+      if (
+        gameObj.spectatorIds.includes(playerId) ||
+        gameObj.playerIds.includes(playerId)
+      ) {
+        return null;
+      }
+
+      gameObj.spectatorIds.push(playerId);
+      return gameObj;
+    });
+
+    if (rejection) {
+      return rejection;
+    }
+
+    // a spectator is not offered to rejoin the game, so its currentGameId stays untouched
+    const userExists = await this.storageService.validatePlayerId(playerId);
+
+    if (!userExists) {
+      await this.storageService.savePlayerObj({
+        id: playerId,
+        name: "player-" + playerId.substring(0, 5),
+        currentGameId: null,
+      });
+    }
+
+    return null;
+  }
+
+  /** Returns the basic info of the spectators of the given gameId, null if the game is invalid */
+  public async getSpectators(gameId: string) {
+    const validGameId = await this.validateGameId(gameId);
+
+    if (validGameId) {
+      const gameObj = await this.storageService.getGameObj(gameId);
+
+      let spectators = [];
+
+      for (const spectatorId of gameObj.spectatorIds) {
+        const playerObj = await this.storageService.getPlayerObj(spectatorId);
+
+        spectators.push({
+          playerId: playerObj.id,
+          playerName: playerObj.name,
+        });
+      }
+
+      return spectators;
+    }
+
+    this.logger.warn("Fetching the spectators of an invalid game");
+    return null;
+  }
+
+  /** Returns a page of the public games waiting for players, newest first. Games that expired meanwhile are dropped from the index */
+  public async listPublicGames(page: number, pageSize: number) {
+    const { gameIds, total } = await this.storageService.getPublicGameIds(
+      (page - 1) * pageSize,
+      pageSize,
+    );
+
+    const games: PublicGameSummary[] = [];
+
+    for (const gameId of gameIds) {
+      const validGameId = await this.validateGameId(gameId);
+
+      if (!validGameId) {
+        await this.storageService.removePublicGameId(gameId);
+        continue;
+      }
+
+      const gameObj = await this.storageService.getGameObj(gameId);
+      const hostObj = await this.storageService.getPlayerObj(gameObj.hostId);
+
+      games.push({
+        gameId,
+        hostName: hostObj.name,
+        playerCount: gameObj.playerIds.length,
+        maxPlayers: gameObj.settings.maxPlayers,
+        mode: gameObj.settings.mode,
+        passageSource: gameObj.settings.passageSource,
+      });
+    }
+
+    return {
+      games,
+      page,
+      totalPages: Math.max(1, Math.ceil(total / pageSize)),
+    };
   }
 
   /** Returns the number of players in the given gameId if valid, null otherwise */
@@ -302,9 +638,20 @@ export class GameService {
           playerName: playerObj.name,
         });
       }
+      const spectators = await this.getSpectators(gameId);
+
       return {
         hostId: gameObj.hostId,
+        inviteCode: gameObj.inviteCode,
+        isLocked: gameObj.isLocked,
+        readyIds: gameObj.readyIds,
+        settings: gameObj.settings,
+        customText:
+          gameObj.settings.passageSource === PassageSource.CUSTOM
+            ? gameObj.gameText
+            : null,
         players,
+        spectators,
       };
     }
 
@@ -312,17 +659,88 @@ export class GameService {
     return null; // when the game was invalid
   }
 
+  /** Puts the player on the matchmaking queue for a quick race */
+  public async joinMatchmaking(playerId: string) {
+    await this.storageService.enqueueMatchmaking(playerId);
+  }
+
+  /** Takes the player off the matchmaking queue. Returns false if it wasn't queued */
+  public async leaveMatchmaking(playerId: string) {
+    return this.storageService.dequeueMatchmaking(playerId);
+  }
+
+  /**
+   * Forms a quick race from the matchmaking queue once it is full or its oldest player waited out the fill timeout.
+   * The oldest player hosts the game. Returns the new game and its players, null if no race could be formed yet.
+   */
+  public async createMatch() {
+    const playerIds = await this.storageService.takeMatchmakingGroup(
+      MAX_SIZE,
+      MIN_SIZE,
+      Date.now() - MATCHMAKING_FILL_TIMEOUT,
+    );
+
+    if (playerIds.length === 0) {
+      return null;
+    }
+
+    const gameId = await this.createGame(playerIds[0], {
+      maxPlayers: MAX_SIZE,
+      isPublic: false,
+    });
+
+    for (const playerId of playerIds.slice(1)) {
+      await this.addPlayer(playerId, gameId);
+    }
+
+    return { gameId, playerIds };
+  }
+
+  /** Counts a chat message against the rate limit of the player. Returns false if the player is sending too many */
+  public async allowChatMessage(playerId: string) {
+    const count = await this.storageService.countChatMessage(
+      playerId,
+      CHAT_RATE_LIMIT.windowMs,
+    );
+
+    return count <= CHAT_RATE_LIMIT.messages;
+  }
+
+  /**
+   * Adds a moderated message from the player to the chat history of the game and returns it.
+   * @throws if the player does not exist
+   */
+  public async postChatMessage(gameId: string, playerId: string, text: string) {
+    const playerObj = await this.storageService.getPlayerObj(playerId);
+
+    const message: ChatMessage = {
+      id: uuid(),
+      playerId,
+      playerName: playerObj.name,
+      text,
+      sentAt: Date.now(),
+    };
+
+    await this.storageService.appendChatMessage(gameId, message);
+
+    return message;
+  }
+
+  /** Returns the recent chat messages of the game, oldest first */
+  public async getChatHistory(gameId: string) {
+    return this.storageService.getChatHistory(gameId);
+  }
+
   /** Updates the player's username in the storage service. Returns true if it was successfully updated, false otherwise */
   public async changeUsername(playerId: string, newUsername: string) {
     // validate the incoming playerId.
     const validPlayerId = await this.validatePlayerId(playerId);
 
     if (validPlayerId) {
-      const playerObj = await this.storageService.getPlayerObj(playerId);
-
-      playerObj.name = newUsername;
-
-      await this.storageService.savePlayerObj(playerObj);
+      await this.storageService.updatePlayerObj(playerId, (playerObj) => {
+        playerObj.name = newUsername;
+        return playerObj;
+      });
 
       return true;
     } else {
@@ -336,18 +754,77 @@ export class GameService {
     const validGameId = await this.validateGameId(gameId);
 
     if (validGameId) {
-      const gameObj = await this.storageService.getGameObj(gameId);
-
-      gameObj.status = newState;
-
-      // if the game is starting, add the game text.
-      if (newState === GameStatus.STARTING) {
-        const gameText = generate({ exactly: 50, join: " " });
-        // const gameText = "race";
-        gameObj.gameText = gameText.trim();
+      const gameObj = await this.storageService.updateGameObj(
+        gameId,
+        (gameObj) => {
+          // only a waiting game can be started, so that a race never gets two countdowns
+          if (
+            newState === GameStatus.STARTING &&
+            gameObj.status !== GameStatus.WAITING
+          ) {
+            return null;
+          }
+
+          // a countdown cancelled in the meantime doesn't go in progress
+          if (
+            newState === GameStatus.IN_PROGRESS &&
+            gameObj.status !== GameStatus.STARTING
+          ) {
+            return null;
+          }
+
+          gameObj.status = newState;
+
+          if (newState === GameStatus.STARTING) {
+            gameObj.countdownEndsAt =
+              Date.now() + gameObj.settings.countdown * 1000;
+          }
+
+          // if the game is starting, pull a passage from the selected source. A custom text is already in place.
+          if (
+            newState === GameStatus.STARTING &&
+            gameObj.settings.passageSource !== PassageSource.CUSTOM
+          ) {
+            const { mode, timeLimit, passageSource } = gameObj.settings;
+
+            // a timed race needs enough text to last the whole clock
+            const wordCount =
+              mode === GameMode.TIMED
+                ? Math.ceil((timeLimit / 60) * TIMED_WORDS_PER_MINUTE)
+                : gameObj.settings.wordCount;
+
+            const { text, ...passageInfo } = this.passageService.getPassage(
+              passageSource,
+              { wordCount },
+            );
+
+            gameObj.gameText = text;
+            gameObj.passage = passageInfo;
+          }
+
+          // the race clock of every client is derived from this epoch
+          if (newState === GameStatus.IN_PROGRESS) {
+            gameObj.startedAt = Date.now();
+            gameObj.countdownEndsAt = null;
+          }
+
+          return gameObj;
+        },
+      );
+
+      if (!gameObj) {
+        return false;
       }
 
-      await this.storageService.saveGameObj(gameObj);
+      // every player starts the race from the beginning of the text
+      if (gameObj.startedAt !== null && newState === GameStatus.IN_PROGRESS) {
+        for (const playerId of gameObj.playerIds) {
+          await this.storageService.savePlayerProgress(gameId, playerId, {
+            position: 0,
+            updatedAt: gameObj.startedAt,
+          });
+        }
+      }
 
       return true;
     }
@@ -356,16 +833,88 @@ export class GameService {
     return false;
   }
 
-  /** Returns the game text for a give gameId if valid, null otherwise */
-  public async getGameText(gameId: string) {
+  /** Puts a starting game back in the lobby. Returns false if it wasn't counting down */
+  public async cancelCountdown(gameId: string) {
+    const validGameId = await this.validateGameId(gameId);
+
+    if (!validGameId) {
+      return false;
+    }
+
+    const gameObj = await this.storageService.updateGameObj(
+      gameId,
+      (gameObj) => {
+        if (gameObj.status !== GameStatus.STARTING) {
+          return null;
+        }
+
+        gameObj.status = GameStatus.WAITING;
+        gameObj.countdownEndsAt = null;
+        return gameObj;
+      },
+    );
+
+    return gameObj !== null;
+  }
+
+  /** Stores an already normalized custom text as the game text and switches the game to the custom source. Returns the updated settings if successfull, null otherwise, e.g. once the game is starting */
+  public async setCustomText(gameId: string, text: string) {
     const validGameId = await this.validateGameId(gameId);
 
     if (validGameId) {
-      const gameObj = await this.storageService.getGameObj(gameId);
-      return gameObj.gameText;
+      const hostId = (await this.storageService.getGameObj(gameId)).hostId;
+      const hostObj = await this.storageService.getPlayerObj(hostId);
+
+      const gameObj = await this.storageService.updateGameObj(
+        gameId,
+        (gameObj) => {
+          // the game may have started since the handler checked it
+          if (gameObj.status !== GameStatus.WAITING) {
+            return null;
+          }
+
+          gameObj.gameText = text;
+          gameObj.passage = {
+            id: uuid(),
+            source: PassageSource.CUSTOM,
+            title: "Custom Text",
+            author: hostObj.name,
+          };
+          gameObj.settings.passageSource = PassageSource.CUSTOM;
+
+          return gameObj;
+        },
+      );
+
+      return gameObj ? gameObj.settings : null;
+    }
+
+    this.logger.warn("Setting the custom text of an invalid game");
+    return null;
+  }
+
+  /** Merges the given changes into the settings of the game. Returns the updated settings if successfull, null otherwise, e.g. once the game is starting */
+  public async updateSettings(gameId: string, changes: Partial<GameSettings>) {
+    const validGameId = await this.validateGameId(gameId);
+
+    if (validGameId) {
+      const gameObj = await this.storageService.updateGameObj(
+        gameId,
+        (gameObj) => {
+          // the game may have started since the handler checked it
+          if (gameObj.status !== GameStatus.WAITING) {
+            return null;
+          }
+
+          gameObj.settings = { ...gameObj.settings, ...changes };
+          return gameObj;
+        },
+      );
+
+      return gameObj ? gameObj.settings : null;
     }
 
-    this.logger.warn("Fetching the game text for an invalid game");
+    this.logger.warn("Updating the settings of an invalid game");
     return null;
   }
 
@@ -380,11 +929,16 @@ export class GameService {
 
       for (const playerId of gameObj.playerIds) {
         const playerObj = await this.storageService.getPlayerObj(playerId);
+        const progress = await this.storageService.getPlayerProgress(
+          gameId,
+          playerId,
+        );
 
         players.push({
           playerId: playerObj.id,
           playerName: playerObj.name,
-          position: 0,
+          position: progress?.position ?? 0,
+          isDisconnected: gameObj.disconnectedIds.includes(playerId),
         });
       }
 
@@ -395,68 +949,249 @@ export class GameService {
     }
   }
 
-  /** Adds a player to the gameResult object after it finished the game. */
+  /**
+   * Records the position of a player if it is plausible and returns whether it was accepted.
+   * The position must lie within the text and must not be reached faster than the speed limit allows, both since the last accepted update and since the race started.
+   */
+  public async acceptPlayerPosition(
+    game: Game,
+    playerId: string,
+    position: unknown,
+  ) {
+    if (
+      typeof position !== "number" ||
+      !Number.isInteger(position) ||
+      position < 0 ||
+      position > game.gameText.length
+    ) {
+      return false;
+    }
+
+    const progress = await this.storageService.getPlayerProgress(
+      game.id,
+      playerId,
+    );
+
+    if (!progress || game.startedAt === null) {
+      return false;
+    }
+
+    const now = Date.now();
+    const maxCharsPerMs = (this.maxProgressWpm * 5) / 60000;
+
+    const sinceUpdate = position - progress.position;
+    const sinceStart = position;
+
+    if (
+      sinceUpdate >
+        maxCharsPerMs * (now - progress.updatedAt) + PROGRESS_ALLOWANCE ||
+      sinceStart > maxCharsPerMs * (now - game.startedAt) + PROGRESS_ALLOWANCE
+    ) {
+      return false;
+    }
+
+    await this.storageService.savePlayerProgress(game.id, playerId, {
+      ...progress,
+      position,
+      updatedAt: now,
+    });
+
+    return true;
+  }
+
+  /** Stores the keystrokes of a player from the given index of the log, so that the race can be resumed after a reconnect. Returns false if they would leave a gap */
+  public async recordKeystrokes(
+    gameId: string,
+    playerId: string,
+    offset: number,
+    keystrokes: KeystrokeEntry[],
+  ) {
+    const length = await this.storageService.appendKeystrokes(
+      gameId,
+      playerId,
+      offset,
+      keystrokes,
+    );
+
+    return length !== -1;
+  }
+
+  /** Returns the last accepted position and the stored keystroke log of a player, null if nothing was typed yet */
+  public async getRaceProgress(gameId: string, playerId: string) {
+    const keystrokes = await this.storageService.getKeystrokes(
+      gameId,
+      playerId,
+    );
+
+    if (keystrokes.length === 0) {
+      return null;
+    }
+
+    const progress = await this.storageService.getPlayerProgress(
+      gameId,
+      playerId,
+    );
+
+    return { position: progress?.position ?? 0, keystrokes };
+  }
+
+  /** Keeps a player who dropped out of a started game in it as disconnected. Returns false if the game is still waiting or the player isn't in it */
+  public async markPlayerDisconnected(gameId: string, playerId: string) {
+    const validGameId = await this.validateGameId(gameId);
+
+    if (!validGameId) {
+      return false;
+    }
+
+    const gameObj = await this.storageService.updateGameObj(
+      gameId,
+      (gameObj) => {
+        if (
+          gameObj.status === GameStatus.WAITING ||
+          !gameObj.playerIds.includes(playerId)
+        ) {
+          return null;
+        }
+
+        if (!gameObj.disconnectedIds.includes(playerId)) {
+          gameObj.disconnectedIds.push(playerId);
+        }
+
+        return gameObj;
+      },
+    );
+
+    return gameObj !== null;
+  }
+
+  /**
+   * Takes a player back into the started game it dropped out of. Returns false if the game is still waiting or the player isn't disconnected from it.
+   * A player whose old connection was never seen closing is still in the game, so it is taken back when that connection is being replaced.
+   */
+  public async reconnectPlayer(
+    gameId: string,
+    playerId: string,
+    isReplacingSocket: boolean,
+  ) {
+    const validGameId = await this.validateGameId(gameId);
+
+    if (!validGameId) {
+      return false;
+    }
+
+    const gameObj = await this.storageService.updateGameObj(
+      gameId,
+      (gameObj) => {
+        const isHeld =
+          gameObj.disconnectedIds.includes(playerId) ||
+          (isReplacingSocket && gameObj.playerIds.includes(playerId));
+
+        if (gameObj.status === GameStatus.WAITING || !isHeld) {
+          return null;
+        }
+
+        gameObj.disconnectedIds = gameObj.disconnectedIds.filter(
+          (id) => id !== playerId,
+        );
+        return gameObj;
+      },
+    );
+
+    return gameObj !== null;
+  }
+
+  /** Flags a player of the given game, e.g. when the client reports a paste */
+  public async flagPlayer(
+    gameId: string,
+    playerId: string,
+    reason: FlagReason,
+  ) {
+    await this.storageService.savePlayerFlag(gameId, playerId, reason);
+  }
+
+  /** Returns the reason a player was flagged for during the given game, null otherwise */
+  public async getPlayerFlag(gameId: string, playerId: string) {
+    return this.storageService.getPlayerFlag(gameId, playerId);
+  }
+
+  /**
+   * Adds a player to the gameResult object after it finished the game. A flagged player is recorded without a position.
+   * The position is assigned atomically in redis. Returns false if the player could not be recorded or already was.
+   */
   public async finishGame(
     playerId: string,
     playerData: FinishGamePayload,
     gameId: string,
+    flagged: FlagReason | null,
+    dnf: boolean,
   ) {
     const validPlayer = await this.validatePlayerId(playerId);
     const validGameId = await this.validateGameId(gameId);
 
     if (!validPlayer) {
       this.logger.warn("Invalid player finishing the game");
-      return;
+      return false;
     }
 
     if (!validGameId) {
       this.logger.warn("Invalid game is being finished");
-      return;
+      return false;
     }
 
-    const gameResultExists =
-      await this.storageService.validateGameResultId(gameId);
-
-    let gameResultObj: GameResult;
-
-    if (gameResultExists) {
-      // fetch the existing gameResultObj
-      gameResultObj = await this.storageService.getGameResultObj(gameId);
-    } else {
-      // create a new one
-      const gameObj = await this.storageService.getGameObj(gameId);
-      gameResultObj = {
-        id: gameId,
-        hostId: gameObj.hostId,
-        players: [],
-      };
-    }
+    // used if this is the first player to finish
+    const gameObj = await this.storageService.getGameObj(gameId);
+    const emptyResultObj: GameResult = {
+      id: gameId,
+      hostId: gameObj.hostId,
+      mode: gameObj.settings.mode,
+      players: [],
+    };
 
-    // add the player to the object
     const playerObj = await this.storageService.getPlayerObj(playerId);
 
-    gameResultObj.players.push({
-      id: playerObj.id,
-      name: playerObj.name,
-      wpm: playerData.wpm,
-      accuracy: playerData.accuracy,
-      time: playerData.time,
-      position: gameResultObj.players.length + 1,
-    });
+    const recorded = await this.storageService.recordPlayerResult(
+      emptyResultObj,
+      {
+        id: playerObj.id,
+        name: playerObj.name,
+        wpm: playerData.wpm,
+        accuracy: playerData.accuracy,
+        time: playerData.time,
+        characters: playerData.characters,
+        dnf,
+        position: null, // assigned by the storage
+        flagged,
+        ratingChange: null, // assigned once the game completes
+        provisional: false,
+      },
+    );
 
-    // save the new object
-    await this.storageService.saveGameResultObj(gameResultObj);
+    if (!recorded) {
+      this.logger.warn(`${playerId} already finished the game ${gameId}`);
+    }
+
+    return recorded;
   }
 
-  /** Checks if all players in a game have finished */
+  /** Checks if every player still in the game has a recorded result */
   public async checkAllPlayersFinished(gameId: string) {
     const validGameId = await this.validateGameId(gameId);
 
     if (validGameId) {
+      // no one finished yet
+      if (!(await this.storageService.validateGameResultId(gameId))) {
+        return false;
+      }
+
       const gameObj = await this.storageService.getGameObj(gameId);
       const gameResultObj = await this.storageService.getGameResultObj(gameId);
 
-      return gameObj.playerIds.length === gameResultObj.players.length;
+      // distinct players, a player who finished and then left is not in the game anymore
+      const finishedIds = new Set(
+        gameResultObj.players.map((player) => player.id),
+      );
+
+      return gameObj.playerIds.every((playerId) => finishedIds.has(playerId));
     }
 
     this.logger.warn(
@@ -465,20 +1200,176 @@ export class GameService {
     return false;
   }
 
-  /** Updates the gameObj for the given gameId as COMPLETED. */
+  /**
+   * Completes the results once the race is over. The players still in the game without a result are recorded as DNF from the keystrokes they sent so far.
+   * A timed race is re-ranked by net wpm, breaking ties by the characters typed, a finish race keeps its finishing order.
+   * The unfinished players are ranked after everyone who finished by the characters they typed correctly, flagged players are left unranked.
+   */
+  public async finalizeResults(gameId: string) {
+    const validGameId = await this.validateGameId(gameId);
+
+    if (!validGameId) {
+      this.logger.warn("Finalizing the results of an invalid game");
+      return;
+    }
+
+    const gameObj = await this.storageService.getGameObj(gameId);
+    const elapsedMs = Date.now() - (gameObj.startedAt ?? Date.now());
+    const unfinishedEntries: GameResult["players"] = [];
+
+    for (const playerId of gameObj.playerIds) {
+      // a player whose object expired can't be recorded
+      if (!(await this.validatePlayerId(playerId))) continue;
+
+      const playerObj = await this.storageService.getPlayerObj(playerId);
+      const keystrokes = await this.storageService.getKeystrokes(
+        gameId,
+        playerId,
+      );
+      const partial = this.scoringService.scoreUnfinished(
+        keystrokes,
+        gameObj,
+        elapsedMs,
+      );
+
+      unfinishedEntries.push({
+        id: playerId,
+        name: playerObj.name,
+        wpm: partial?.wpm ?? 0,
+        accuracy: partial?.accuracy ?? null, // unknown without the keystroke log
+        time: partial?.time ?? Math.round(elapsedMs / 100) / 10,
+        characters: partial?.characters ?? 0,
+        dnf: true,
+        position: null, // assigned below
+        flagged: await this.storageService.getPlayerFlag(gameId, playerId),
+        ratingChange: null,
+        provisional: false,
+      });
+    }
+
+    // a result recorded while this runs restarts the update, so it is ranked instead of overwritten
+    await this.storageService.updateGameResultObj(
+      {
+        id: gameId,
+        hostId: gameObj.hostId,
+        mode: gameObj.settings.mode,
+        players: [],
+      },
+      (gameResultObj) => {
+        const recordedIds = new Set(gameResultObj.players.map(({ id }) => id));
+
+        const players = [
+          ...gameResultObj.players,
+          ...unfinishedEntries.filter(({ id }) => !recordedIds.has(id)),
+        ];
+
+        const ranked = players.filter((player) => !player.flagged);
+
+        const finishers = ranked
+          .filter((player) => !player.dnf)
+          .sort((a, b) =>
+            gameObj.settings.mode === GameMode.TIMED
+              ? b.wpm - a.wpm || b.characters - a.characters
+              : (a.position as number) - (b.position as number),
+          );
+
+        const unfinished = ranked
+          .filter((player) => player.dnf)
+          .sort((a, b) => b.characters - a.characters || b.wpm - a.wpm);
+
+        gameResultObj.players = [
+          ...[...finishers, ...unfinished].map((player, index) => ({
+            ...player,
+            position: index + 1,
+          })),
+          ...players.filter((player) => player.flagged),
+        ];
+
+        return gameResultObj;
+      },
+    );
+  }
+
+  /** Updates the gameObj for the given gameId as COMPLETED. Returns false if it was already completed */
   public async markGameFinished(gameId: string) {
     const validGameId = await this.validateGameId(gameId);
 
     if (!validGameId) {
       this.logger.warn("An invalid game cannot be marked finished");
+      return false;
+    }
+
+    const updatedGame = await this.storageService.updateGameObj(
+      gameId,
+      (gameObj) => {
+        if (gameObj.status === GameStatus.COMPLETED) {
+          return null;
+        }
+
+        gameObj.status = GameStatus.COMPLETED;
+        return gameObj;
+      },
+    );
+
+    return updatedGame !== null;
+  }
+
+  /**
+   * Updates the ratings of the players from the positions in the game result and records the changes in it.
+   * Flagged and unranked players are left out, and a race with fewer than two ranked players is not rated at all.
+   * Must only be called once per game, right after it was marked finished.
+   */
+  public async applyRatings(gameId: string) {
+    const validGameResultId = await this.validateGameResultId(gameId);
+
+    if (!validGameResultId) {
       return;
     }
 
-    const gameObj = await this.storageService.getGameObj(gameId);
+    const gameResultObj = await this.storageService.getGameResultObj(gameId);
+    const entrants: RatedEntrant[] = [];
+
+    for (const player of gameResultObj.players) {
+      if (player.flagged || player.position === null) continue;
+
+      const { rating, ratedRaces } = await this.storageService.getPlayerRating(
+        player.id,
+      );
+
+      entrants.push({
+        id: player.id,
+        rating,
+        ratedRaces,
+        position: player.position,
+      });
+    }
 
-    gameObj.status = GameStatus.COMPLETED;
+    const changes = this.ratingService.rate(entrants);
 
-    await this.storageService.saveGameObj(gameObj);
+    if (changes.size === 0) {
+      return;
+    }
+
+    for (const entrant of entrants) {
+      await this.storageService.applyRatingChange(
+        entrant.id,
+        changes.get(entrant.id) as number,
+      );
+    }
+
+    gameResultObj.players = gameResultObj.players.map((player) => {
+      const entrant = entrants.find(({ id }) => id === player.id);
+
+      return entrant
+        ? {
+            ...player,
+            ratingChange: changes.get(entrant.id) as number,
+            provisional: entrant.ratedRaces < PROVISIONAL_RACES,
+          }
+        : player;
+    });
+
+    await this.storageService.saveGameResultObj(gameResultObj);
   }
 
   /**
@@ -502,27 +1393,93 @@ export class GameService {
     return null;
   }
 
-  public async restartGame(gameId: string) {
+  /** Returns a snapshot of the game as seen by the given player, with everything needed to render its current stage. Null if the gameId is invalid */
+  public async getGameState(gameId: string, playerId: string) {
+    const validGameId = await this.validateGameId(gameId);
+
+    if (!validGameId) {
+      this.logger.warn("Fetching the state of an invalid game");
+      return null;
+    }
+
+    const gameObj = await this.storageService.getGameObj(gameId);
+
+    const gameResultObj =
+      gameObj.status === GameStatus.COMPLETED
+        ? await this.getGameResult(gameId)
+        : null;
+
+    return {
+      gameId,
+      status: gameObj.status,
+      isSpectator: gameObj.spectatorIds.includes(playerId),
+      settings: gameObj.settings,
+      lobby: await this.getLobby(gameId),
+      // the passage is drawn when the game starts, a custom text is part of the lobby
+      gameText: gameObj.status === GameStatus.WAITING ? null : gameObj.gameText,
+      passage: gameObj.passage,
+      startedAt: gameObj.startedAt,
+      countdownEndsAt: gameObj.countdownEndsAt,
+      players: await this.getGamePlayers(gameId),
+      resume: await this.getRaceProgress(gameId, playerId),
+      result: gameResultObj && {
+        hostId: gameResultObj.hostId,
+        mode: gameResultObj.mode,
+        passageSource: gameObj.settings.passageSource,
+        players: gameResultObj.players,
+      },
+    };
+  }
+
+  /** Creates a new game with the same players and settings. A custom text is carried over only if keepCustomText is set */
+  public async restartGame(gameId: string, keepCustomText: boolean) {
     // create the new game from the existing one
     const existingGameObj = await this.storageService.getGameObj(gameId);
 
+    const isCustom =
+      existingGameObj.settings.passageSource === PassageSource.CUSTOM;
+    const carryText = isCustom && keepCustomText;
+
     const newGame: Game = {
       id: uuid(),
+      inviteCode: existingGameObj.inviteCode, // the players keep sharing the same code
       hostId: existingGameObj.hostId,
-      playerIds: existingGameObj.playerIds,
+      // a player still disconnected from the finished game doesn't hold up the rematch
+      playerIds: existingGameObj.playerIds.filter(
+        (id) => !existingGameObj.disconnectedIds.includes(id),
+      ),
+      spectatorIds: existingGameObj.spectatorIds,
+      bannedIds: existingGameObj.bannedIds, // a kicked player stays out of the rematch
+      readyIds: [],
+      disconnectedIds: [],
+      isLocked: existingGameObj.isLocked,
       status: GameStatus.WAITING,
-      gameText: "",
+      gameText: carryText ? existingGameObj.gameText : "",
+      settings: {
+        ...existingGameObj.settings,
+        // without the custom text, fall back to the default source
+        passageSource:
+          isCustom && !carryText
+            ? DEFAULT_SETTINGS.passageSource
+            : existingGameObj.settings.passageSource,
+      },
+      passage: carryText ? existingGameObj.passage : null,
+      startedAt: null,
+      countdownEndsAt: null,
       createdAt: new Date(),
     };
 
-    // save the new game
+    // save the new game and hand it the invite code and the chat
     await this.storageService.saveGameObj(newGame);
+    await this.storageService.moveInviteCode(newGame.inviteCode, newGame.id);
+    await this.storageService.moveChatHistory(existingGameObj.id, newGame.id);
 
     // Update currentGameId for all players
     for (const playerId of existingGameObj.playerIds) {
-      const playerObj = await this.storageService.getPlayerObj(playerId);
-      playerObj.currentGameId = newGame.id;
-      await this.storageService.savePlayerObj(playerObj);
+      await this.storageService.updatePlayerObj(playerId, (playerObj) => {
+        playerObj.currentGameId = newGame.id;
+        return playerObj;
+      });
     }
 
     // delete the old game object
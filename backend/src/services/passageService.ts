@@ -0,0 +1,105 @@
+import { CodeProvider } from "../passages/codeProvider";
+import { NumbersProvider } from "../passages/numbersProvider";
+import { PassageProvider } from "../passages/passageProvider";
+import { QuotesProvider } from "../passages/quotesProvider";
+import { WordsProvider } from "../passages/wordsProvider";
+import {
+  CUSTOM_TEXT_LIMITS,
+  Passage,
+  PassageOptions,
+  PassageSource,
+} from "../types";
+
+/** Typographic characters mapped to the plain characters found on a keyboard */
+const TYPOGRAPHIC_REPLACEMENTS: [RegExp, string][] = [
+  [/[\u2018\u2019\u201A\u201B\u2032]/g, "'"], // smart single quotes and primes
+  [/[\u201C\u201D\u201E\u201F\u2033]/g, '"'], // smart double quotes
+  [/[\u2010-\u2015\u2212]/g, "-"], // hyphens, dashes and the minus sign
+  [/\u2026/g, "..."], // ellipsis
+];
+
+export type NormalizedText =
+  | { valid: true; text: string }
+  | { valid: false; reason: string };
+
+/** Keeps a registry of passage providers and hands out passages by source */
+export class PassageService {
+  private static instance: PassageService;
+  private providers: Map<PassageSource, PassageProvider>;
+
+  private constructor() {
+    this.providers = new Map();
+
+    this.register(new WordsProvider());
+    this.register(new QuotesProvider());
+    this.register(new NumbersProvider());
+    this.register(new CodeProvider());
+  }
+
+  /** Returns a singleton instance of PassageService */
+  public static getInstance() {
+    if (!PassageService.instance) {
+      PassageService.instance = new PassageService();
+    }
+
+    return PassageService.instance;
+  }
+
+  /** Registers a provider, replacing any existing provider for the same source */
+  public register(provider: PassageProvider) {
+    this.providers.set(provider.source, provider);
+  }
+
+  /**
+   * Returns a new passage from the given source.
+   * @throws if no provider is registered for the source
+   */
+  public getPassage(source: PassageSource, options: PassageOptions): Passage {
+    const provider = this.providers.get(source);
+
+    if (!provider) {
+      throw new Error(`No passage provider registered for ${source}`);
+    }
+
+    return provider.getPassage(options);
+  }
+
+  /**
+   * Normalizes a custom text supplied by the host.
+   * Typographic quotes and dashes are replaced with their plain versions and all whitespace is collapsed into single spaces.
+   * The result is rejected if it has unprintable characters or falls outside the length limits.
+   */
+  public normalizeCustomText(rawText: unknown): NormalizedText {
+    if (typeof rawText !== "string") {
+      return { valid: false, reason: "Please paste some text for the race" };
+    }
+
+    let text = rawText.normalize("NFKC");
+
+    for (const [pattern, replacement] of TYPOGRAPHIC_REPLACEMENTS) {
+      text = text.replace(pattern, replacement);
+    }
+
+    text = text.replace(/\s+/g, " ").trim();
+
+    const invalidChar = text.match(/[^\x20-\x7E]/u);
+
+    if (invalidChar) {
+      return {
+        valid: false,
+        reason: `The text has a character that can't be typed: "${invalidChar[0]}"`,
+      };
+    }
+
+    const { min, max } = CUSTOM_TEXT_LIMITS;
+
+    if (text.length < min || text.length > max) {
+      return {
+        valid: false,
+        reason: `The text must be between ${min} and ${max} characters long, it has ${text.length}`,
+      };
+    }
+
+    return { valid: true, text };
+  }
+}
@@ -0,0 +1,76 @@
+import { PROVISIONAL_RACES } from "../types";
+
+/** A player taking part in a rated race */
+export type RatedEntrant = {
+  id: string;
+  rating: number;
+  ratedRaces: number;
+  position: number;
+};
+
+/** Rates players with pairwise Elo updates, every race counting as a match against each opponent. The K-factors can be tuned from the env */
+export class RatingService {
+  private static instance: RatingService;
+
+  private kFactor: number; // the largest swing against a single field of opponents
+  private provisionalKFactor: number; // a larger swing so that new players settle quickly
+
+  private constructor() {
+    this.kFactor = Number(process.env.RATING_K_FACTOR) || 32;
+    this.provisionalKFactor =
+      Number(process.env.RATING_PROVISIONAL_K_FACTOR) || 64;
+  }
+
+  /** Returns a singleton instance of RatingService */
+  public static getInstance() {
+    if (!RatingService.instance) {
+      RatingService.instance = new RatingService();
+    }
+
+    return RatingService.instance;
+  }
+
+  /**
+   * Returns the rating change of every entrant by playerId.
+   * A player beats everyone finishing behind it and draws with anyone on the same position. A race needs two entrants to be rated.
+   */
+  public rate(entrants: RatedEntrant[]) {
+    const changes = new Map<string, number>();
+
+    if (entrants.length < 2) {
+      return changes;
+    }
+
+    for (const entrant of entrants) {
+      let surplus = 0; // the actual score minus the expected score
+
+      for (const opponent of entrants) {
+        if (opponent.id === entrant.id) continue;
+
+        const score =
+          entrant.position < opponent.position
+            ? 1
+            : entrant.position === opponent.position
+              ? 0.5
+              : 0;
+        const expected =
+          1 / (1 + 10 ** ((opponent.rating - entrant.rating) / 400));
+
+        surplus += score - expected;
+      }
+
+      const kFactor =
+        entrant.ratedRaces < PROVISIONAL_RACES
+          ? this.provisionalKFactor
+          : this.kFactor;
+
+      // averaged over the opponents so that a large race doesn't swing the rating further
+      changes.set(
+        entrant.id,
+        Math.round((kFactor * surplus) / (entrants.length - 1)),
+      );
+    }
+
+    return changes;
+  }
+}
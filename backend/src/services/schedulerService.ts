@@ -0,0 +1,154 @@
+import {
+  JOB_LEASE_DURATION,
+  SCHEDULER_POLL_INTERVAL,
+  ScheduledJobType,
+} from "../types";
+import { LoggingService } from "./loggingService";
+import { StorageService } from "./storageService";
+
+/** Runs a due job for the given game, and the given player if the job was scheduled for one */
+export type JobHandler = (gameId: string, playerId?: string) => Promise<void>;
+
+/** The most due jobs claimed in one poll */
+const CLAIM_BATCH_SIZE = 20;
+
+/** Runs of a job before it is given up */
+const MAX_JOB_ATTEMPTS = 3;
+
+/** How long a failed job waits before it is run again (in ms) */
+const JOB_RETRY_DELAY = 1000;
+
+/**
+ * Fires game transitions at their due time from a schedule kept in redis, so that a timer survives the instance that set it.
+ * Every instance polls the schedule and the one that claims a due job runs it under a lease. The job is only released once it ran,
+ * a failed job is retried a few times and one whose instance died is run again once the lease runs out.
+ */
+export class SchedulerService {
+  private static instance: SchedulerService;
+  private storageService: StorageService;
+  private handlers: Map<ScheduledJobType, JobHandler>;
+  private pollInterval: NodeJS.Timeout | null = null;
+  private isPolling = false; // a slow poll is not overlapped by the next one
+  private logger = LoggingService.getInstance();
+
+  private constructor() {
+    this.storageService = StorageService.getInstance();
+    this.handlers = new Map();
+  }
+
+  /** Returns a singleton instance of SchedulerService */
+  public static getInstance() {
+    if (!SchedulerService.instance) {
+      SchedulerService.instance = new SchedulerService();
+    }
+
+    return SchedulerService.instance;
+  }
+
+  /** Registers the handler of a job type, replacing any existing handler for it */
+  public register(type: ScheduledJobType, handler: JobHandler) {
+    this.handlers.set(type, handler);
+  }
+
+  /** Starts polling the schedule for due jobs */
+  public start() {
+    if (this.pollInterval) {
+      return;
+    }
+
+    this.pollInterval = setInterval(() => this.poll(), SCHEDULER_POLL_INTERVAL);
+  }
+
+  /** Schedules a job for the game, or one of its players, at the given time in ms since the epoch. Scheduling it again moves its due time */
+  public async schedule(
+    type: ScheduledJobType,
+    gameId: string,
+    dueAt: number,
+    playerId?: string,
+  ) {
+    await this.storageService.scheduleJob(
+      this.getJobKey(type, gameId, playerId),
+      dueAt,
+    );
+  }
+
+  /** Cancels a job of the game, or one of its players. Returns false if it wasn't scheduled, e.g. because it already fired */
+  public async cancel(
+    type: ScheduledJobType,
+    gameId: string,
+    playerId?: string,
+  ) {
+    return this.storageService.cancelJob(
+      this.getJobKey(type, gameId, playerId),
+    );
+  }
+
+  /** Returns the member of a job in the schedule, the ids never contain a colon */
+  private getJobKey(type: ScheduledJobType, gameId: string, playerId?: string) {
+    return playerId ? `${type}:${gameId}:${playerId}` : `${type}:${gameId}`;
+  }
+
+  /** Claims the due jobs and runs their handlers */
+  private async poll() {
+    if (this.isPolling) {
+      return;
+    }
+
+    this.isPolling = true;
+
+    try {
+      const now = Date.now();
+      const leaseUntil = now + JOB_LEASE_DURATION;
+
+      const jobs = await this.storageService.claimDueJobs(
+        now,
+        CLAIM_BATCH_SIZE,
+        leaseUntil,
+      );
+
+      for (const job of jobs) {
+        await this.run(job, leaseUntil);
+      }
+    } catch (err) {
+      this.logger.error(`Couldn't poll the scheduled jobs: ${err}`);
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  /** Runs a claimed job and releases it. A failing job is put back on the schedule until it ran out of attempts */
+  private async run(job: string, leaseUntil: number) {
+    const [type, gameId, playerId] = job.split(":");
+
+    const handler = this.handlers.get(type as ScheduledJobType);
+
+    if (!handler) {
+      this.logger.warn(`No handler registered for the scheduled job ${job}`);
+      await this.storageService.completeJob(job, leaseUntil);
+      return;
+    }
+
+    try {
+      await handler(gameId, playerId);
+    } catch (err) {
+      this.logger.error(`The scheduled job ${job} failed: ${err}`);
+
+      const attempts = await this.storageService.countJobAttempt(job);
+
+      if (attempts < MAX_JOB_ATTEMPTS) {
+        await this.storageService.retryJob(
+          job,
+          leaseUntil,
+          Date.now() + JOB_RETRY_DELAY,
+        );
+        return;
+      }
+
+      this.logger.error(
+        `Giving up the scheduled job ${job} after ${attempts} attempts`,
+      );
+    }
+
+    await this.storageService.completeJob(job, leaseUntil);
+  }
+}
@@ -0,0 +1,232 @@
+import {
+  CLOCK_TOLERANCE,
+  FinishGamePayload,
+  Game,
+  GameMode,
+  KeystrokeEntry,
+  MAX_KEYSTROKES,
+} from "../types";
+
+export type ScoredResult =
+  | { valid: true; result: FinishGamePayload; dnf: boolean }
+  | { valid: false; reason: string };
+
+/** Replays the keystroke logs sent by the clients and computes their performance metrics */
+export class ScoringService {
+  private static instance: ScoringService;
+
+  private constructor() {}
+
+  /** Returns a singleton instance of ScoringService */
+  public static getInstance() {
+    if (!ScoringService.instance) {
+      ScoringService.instance = new ScoringService();
+    }
+
+    return ScoringService.instance;
+  }
+
+  /**
+   * Replays the keystroke log against the game text and computes wpm, accuracy, time and the correct characters.
+   * The leading indentation of a line is filled in by the client after a newline, so it is neither typed nor counted.
+   * A finish race log must reach the end of the text, unless the race ran out of time and the player did not finish.
+   * A log that reaches the end of the text finishes it, the typos left in it only cost accuracy.
+   * Either log is cut off at the time limit of its mode.
+   * The timestamps are relative to the start epoch of the game, so the log can't end later than the server clock.
+   */
+  public score(log: unknown, game: Game): ScoredResult {
+    if (!Array.isArray(log) || log.length === 0) {
+      return { valid: false, reason: "The keystroke log is missing" };
+    }
+
+    if (log.length > MAX_KEYSTROKES) {
+      return { valid: false, reason: "The keystroke log is too long" };
+    }
+
+    const target = game.gameText;
+    const isTimed = game.settings.mode === GameMode.TIMED;
+    const timeLimitMs =
+      (isTimed ? game.settings.timeLimit : game.settings.maxDuration) * 1000;
+
+    let input = "";
+    let lastTimestamp = 0;
+
+    for (const entry of log) {
+      if (!this.isValidEntry(entry)) {
+        return { valid: false, reason: "The keystroke log is malformed" };
+      }
+
+      const [timestamp, deleted, inserted] = entry;
+
+      if (timestamp < lastTimestamp) {
+        return {
+          valid: false,
+          reason: "The keystroke log is not in chronological order",
+        };
+      }
+
+      // anything typed after the clock ran out does not count
+      if (timestamp > timeLimitMs) {
+        break;
+      }
+
+      if (deleted > input.length) {
+        return {
+          valid: false,
+          reason: "The keystroke log deletes more than was typed",
+        };
+      }
+
+      input = input.slice(0, input.length - deleted) + inserted;
+
+      if (input.length > target.length) {
+        return {
+          valid: false,
+          reason: "The keystroke log goes past the end of the text",
+        };
+      }
+
+      lastTimestamp = timestamp;
+    }
+
+    if (
+      game.startedAt === null ||
+      lastTimestamp > Date.now() - game.startedAt + CLOCK_TOLERANCE
+    ) {
+      return {
+        valid: false,
+        reason: "The keystroke log runs ahead of the race clock",
+      };
+    }
+
+    const reachedEnd = input.length === target.length;
+    const isTimeUp =
+      Date.now() - game.startedAt + CLOCK_TOLERANCE >= timeLimitMs;
+
+    if (!isTimed && !reachedEnd && !isTimeUp) {
+      return {
+        valid: false,
+        reason: "The keystroke log does not reach the end of the text",
+      };
+    }
+
+    // the race lasts the whole clock unless the text ran out first
+    const timeMs = reachedEnd ? lastTimestamp : timeLimitMs;
+
+    if (timeMs <= 0) {
+      return { valid: false, reason: "The keystroke log has no duration" };
+    }
+
+    return {
+      valid: true,
+      result: this.measure(input, target, timeMs, isTimed),
+      dnf: !isTimed && !reachedEnd,
+    };
+  }
+
+  /**
+   * Computes the metrics of a player who didn't finish from the keystrokes the server kept, e.g. one who dropped out of the race.
+   * The kept log was only checked entry by entry, so whatever can't be replayed ends it. It is cut off at the time limit of the mode.
+   * Returns null if there is nothing to measure.
+   */
+  public scoreUnfinished(
+    log: KeystrokeEntry[],
+    game: Game,
+    elapsedMs: number,
+  ): FinishGamePayload | null {
+    const target = game.gameText;
+    const isTimed = game.settings.mode === GameMode.TIMED;
+    const timeLimitMs =
+      (isTimed ? game.settings.timeLimit : game.settings.maxDuration) * 1000;
+    const timeMs = Math.min(elapsedMs, timeLimitMs);
+
+    let input = "";
+
+    for (const [timestamp, deleted, inserted] of log) {
+      if (timestamp > timeLimitMs || deleted > input.length) {
+        break;
+      }
+
+      const nextInput = input.slice(0, input.length - deleted) + inserted;
+
+      if (nextInput.length > target.length) {
+        break;
+      }
+
+      input = nextInput;
+    }
+
+    if (input.length === 0 || timeMs <= 0) {
+      return null;
+    }
+
+    return this.measure(input, target, timeMs, isTimed);
+  }
+
+  /** Computes wpm, accuracy, time and the correct characters of the final input over the given duration */
+  private measure(
+    input: string,
+    target: string,
+    timeMs: number,
+    isTimed: boolean,
+  ): FinishGamePayload {
+    const autoSkipped = this.getAutoSkippedIndices(target);
+
+    let typedChars = 0;
+    let correctChars = 0;
+
+    for (let i = 0; i < input.length; i++) {
+      if (autoSkipped.has(i)) continue;
+
+      typedChars++;
+
+      if (input[i] === target[i]) {
+        correctChars++;
+      }
+    }
+
+    const minutes = timeMs / 60000;
+
+    // a timed race is ranked by net wpm i.e. only the correct characters count
+    const wpmChars = isTimed ? correctChars : typedChars;
+
+    return {
+      wpm: Math.round(wpmChars / 5 / minutes), // a word is 5 chars on average (assumption)
+      accuracy:
+        typedChars === 0 ? 100 : Math.round((correctChars / typedChars) * 100),
+      time: Math.round(timeMs / 100) / 10,
+      characters: correctChars,
+    };
+  }
+
+  /** Verifies the shape of a single keystroke entry */
+  public isValidEntry(entry: unknown): entry is KeystrokeEntry {
+    if (!Array.isArray(entry) || entry.length !== 3) return false;
+
+    const [timestamp, deleted, inserted] = entry;
+
+    return (
+      Number.isInteger(timestamp) &&
+      timestamp >= 0 &&
+      Number.isInteger(deleted) &&
+      deleted >= 0 &&
+      typeof inserted === "string"
+    );
+  }
+
+  /** Returns the indices of the leading indentation of every line after the first */
+  private getAutoSkippedIndices(text: string) {
+    const autoSkipped = new Set<number>();
+
+    for (let i = 1; i < text.length; i++) {
+      if (
+        (text[i] === " " || text[i] === "\t") &&
+        (text[i - 1] === "\n" || autoSkipped.has(i - 1))
+      ) {
+        autoSkipped.add(i);
+      }
+    }
+
+    return autoSkipped;
+  }
+}
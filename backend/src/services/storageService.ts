@@ -1,9 +1,167 @@
-import { createClient, RedisClientType } from "redis";
-import { Game, GameResult, Player, TTL } from "../types";
+import { createClient, RedisClientType, WatchError } from "redis";
+import {
+  CHAT_HISTORY_LENGTH,
+  ChatMessage,
+  CLAIMED_JOBS_KEY,
+  FlagReason,
+  Game,
+  GameResult,
+  GameStatus,
+  INITIAL_RATING,
+  JOB_ATTEMPTS_KEY,
+  KeystrokeEntry,
+  MATCHMAKING_QUEUE_KEY,
+  Player,
+  PlayerProgress,
+  PlayerRating,
+  PUBLIC_GAMES_CHANNEL,
+  PUBLIC_GAMES_KEY,
+  SCHEDULED_JOBS_KEY,
+  TTL,
+} from "../types";
 import { LoggingService } from "./loggingService";
 import "dotenv/config";
 import invariant from "tiny-invariant";
 
+/** How often a transactional update is retried when the document changes under it */
+const MAX_UPDATE_ATTEMPTS = 10;
+
+/**
+ * Appends a player to a gameResult in one step, creating the gameResult if needed.
+ * A player already in the result is not added again. The position is the count of ranked players before it, a flagged player gets none.
+ * KEYS[1]: the gameResult key. ARGV[1]: the gameResult to create, ARGV[2]: the player entry, ARGV[3]: the TTL.
+ * Returns 1 if the player was recorded, 0 if it already was.
+ */
+const RECORD_PLAYER_RESULT_SCRIPT = `
+if redis.call("EXISTS", KEYS[1]) == 0 then
+  redis.call("JSON.SET", KEYS[1], "$", ARGV[1])
+end
+
+local players = cjson.decode(redis.call("JSON.GET", KEYS[1], "$.players"))[1]
+local entry = cjson.decode(ARGV[2])
+local ranked = 0
+
+for _, player in ipairs(players) do
+  if player.id == entry.id then
+    return 0
+  end
+
+  if player.flagged == cjson.null then
+    ranked = ranked + 1
+  end
+end
+
+if entry.flagged == cjson.null then
+  entry.position = ranked + 1
+else
+  entry.position = cjson.null
+end
+
+redis.call("JSON.ARRAPPEND", KEYS[1], "$.players", cjson.encode(entry))
+redis.call("EXPIRE", KEYS[1], ARGV[3])
+
+return 1
+`;
+
+/**
+ * Takes the oldest players off the matchmaking queue in one step, so that two servers never match the same player.
+ * A full group is taken right away, a smaller one only once its oldest player queued before the fill deadline.
+ * KEYS[1]: the queue key. ARGV[1]: the largest group, ARGV[2]: the smallest group, ARGV[3]: the fill deadline.
+ * Returns the taken playerIds, oldest first, or none.
+ */
+const TAKE_MATCH_SCRIPT = `
+local queued = redis.call("ZRANGE", KEYS[1], 0, tonumber(ARGV[1]) - 1, "WITHSCORES")
+local count = #queued / 2
+
+if count == 0 or count < tonumber(ARGV[2]) then
+  return {}
+end
+
+if count < tonumber(ARGV[1]) and tonumber(queued[2]) > tonumber(ARGV[3]) then
+  return {}
+end
+
+local playerIds = {}
+
+for i = 1, #queued, 2 do
+  playerIds[#playerIds + 1] = queued[i]
+end
+
+redis.call("ZREM", KEYS[1], unpack(playerIds))
+
+return playerIds
+`;
+
+/**
+ * Moves the due jobs from the schedule to the claimed jobs in one step, leasing them to the calling instance until the lease deadline.
+ * The jobs whose lease ran out are put back on the schedule first, unless they were scheduled again in the meantime.
+ * KEYS[1]: the schedule key, KEYS[2]: the claimed jobs key. ARGV[1]: the current time, ARGV[2]: the most jobs to take, ARGV[3]: the lease deadline.
+ * Returns the taken jobs.
+ */
+const CLAIM_DUE_JOBS_SCRIPT = `
+local expired = redis.call("ZRANGEBYSCORE", KEYS[2], "-inf", ARGV[1])
+
+for _, job in ipairs(expired) do
+  redis.call("ZADD", KEYS[1], "NX", ARGV[1], job)
+  redis.call("ZREM", KEYS[2], job)
+end
+
+local due = redis.call("ZRANGEBYSCORE", KEYS[1], "-inf", ARGV[1], "LIMIT", 0, tonumber(ARGV[2]))
+
+for _, job in ipairs(due) do
+  redis.call("ZADD", KEYS[2], ARGV[3], job)
+end
+
+if #due > 0 then
+  redis.call("ZREM", KEYS[1], unpack(due))
+end
+
+return due
+`;
+
+/**
+ * Releases a claimed job, as long as the lease is still the one of the caller. A job to retry is put back on the schedule, unless it was scheduled again in the meantime.
+ * KEYS[1]: the claimed jobs key, KEYS[2]: the schedule key, KEYS[3]: the job attempts key. ARGV[1]: the job, ARGV[2]: the lease deadline, ARGV[3]: the due time of the retry, if any.
+ * Returns 1 if the job was released, 0 if the lease was lost.
+ */
+const RELEASE_JOB_SCRIPT = `
+if tonumber(redis.call("ZSCORE", KEYS[1], ARGV[1])) ~= tonumber(ARGV[2]) then
+  return 0
+end
+
+redis.call("ZREM", KEYS[1], ARGV[1])
+
+if ARGV[3] then
+  redis.call("ZADD", KEYS[2], "NX", ARGV[3], ARGV[1])
+else
+  redis.call("HDEL", KEYS[3], ARGV[1])
+end
+
+return 1
+`;
+
+/**
+ * Appends the entries of a keystroke log that are not stored yet. A resent entry is skipped, a gap leaves the log as it is.
+ * KEYS[1]: the log key. ARGV[1]: the index of the first entry, ARGV[2]: the TTL, ARGV[3..]: the entries.
+ * Returns the length of the log, or -1 if the entries would leave a gap.
+ */
+const APPEND_KEYSTROKES_SCRIPT = `
+local length = redis.call("LLEN", KEYS[1])
+local offset = tonumber(ARGV[1])
+
+if offset > length then
+  return -1
+end
+
+for i = length - offset + 3, #ARGV do
+  redis.call("RPUSH", KEYS[1], ARGV[i])
+end
+
+redis.call("EXPIRE", KEYS[1], ARGV[2])
+
+return redis.call("LLEN", KEYS[1])
+`;
+
 /** Stores game,player and gameResult objects */
 export class StorageService {
   private static instance: StorageService;
@@ -57,23 +215,166 @@ export class StorageService {
       `game:${gameId}`,
     )) as unknown as Game;
 
-    // refresh the TTL
+    // refresh the TTL, the invite code lives as long as its game
     await this.redisClient.expire(`game:${gameId}`, TTL);
+    await this.redisClient.expire(`inviteCode:${game.inviteCode}`, TTL);
 
     return game;
   }
 
+  /**
+   * Updates the game object in a WATCH/MULTI transaction and refreshes its TTL. The update is re-run on a fresh copy whenever the game changes in between, so it must not have side effects.
+   * The update mutates and returns the game, or returns null to leave it untouched. A game left without players is deleted.
+   * Returns the updated game, null if the update was aborted.
+   * @throws if the game does not exist or keeps changing
+   */
+  public async updateGameObj(
+    gameId: string,
+    update: (gameObj: Game) => Game | null,
+  ) {
+    const gameObj = await this.updateDocument<Game>(
+      `game:${gameId}`,
+      update,
+      (gameObj) => gameObj.playerIds.length === 0,
+    );
+
+    if (gameObj) {
+      await this.syncPublicGameIndex(gameId, gameObj);
+    }
+
+    // the game was deleted with its last player, its invite code goes with it
+    if (gameObj && gameObj.playerIds.length === 0) {
+      await this.releaseInviteCode(gameObj.inviteCode, gameId);
+    }
+
+    return gameObj;
+  }
+
+  /**
+   * Updates the player object in a WATCH/MULTI transaction and refreshes its TTL, see updateGameObj.
+   * @throws if the player does not exist or keeps changing
+   */
+  public async updatePlayerObj(
+    playerId: string,
+    update: (playerObj: Player) => Player | null,
+  ) {
+    return this.updateDocument<Player>(
+      `player:${playerId}`,
+      update,
+      () => false,
+    );
+  }
+
+  /**
+   * Updates the gameResult in a WATCH/MULTI transaction and refreshes its TTL, see updateGameObj.
+   * The given empty gameResult is saved first if the game has none yet, so a result recorded at the same time is never overwritten.
+   * @throws if the gameResult keeps changing
+   */
+  public async updateGameResultObj(
+    emptyResultObj: GameResult,
+    update: (gameResultObj: GameResult) => GameResult | null,
+  ) {
+    await this.redisClient.json.set(
+      `gameResult:${emptyResultObj.id}`,
+      "$",
+      { ...emptyResultObj },
+      { NX: true },
+    );
+
+    return this.updateDocument<GameResult>(
+      `gameResult:${emptyResultObj.id}`,
+      update,
+      () => false,
+    );
+  }
+
+  /** Runs an optimistic read-modify-write of a JSON document, retrying when a concurrent write invalidates the WATCH */
+  private async updateDocument<T extends Game | Player | GameResult>(
+    key: string,
+    update: (doc: T) => T | null,
+    shouldDelete: (doc: T) => boolean,
+  ) {
+    for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+      try {
+        // WATCH is tied to the connection, so every attempt runs on an isolated one
+        return await this.redisClient.executeIsolated(
+          async (isolatedClient) => {
+            await isolatedClient.watch(key);
+
+            const doc = (await isolatedClient.json.get(
+              key,
+            )) as unknown as T | null;
+
+            if (!doc) {
+              await isolatedClient.unwatch();
+              throw new Error(`${key} does not exist`);
+            }
+
+            const updatedDoc = update(doc);
+
+            if (!updatedDoc) {
+              await isolatedClient.unwatch();
+              return null;
+            }
+
+            const transaction = isolatedClient.multi();
+
+            if (shouldDelete(updatedDoc)) {
+              transaction.del(key);
+            } else {
+              transaction.json
+                .set(key, "$", { ...updatedDoc })
+                .expire(key, TTL);
+            }
+
+            // rejects with a WatchError if the key was written since the WATCH
+            await transaction.exec();
+
+            return updatedDoc;
+          },
+        );
+      } catch (err) {
+        if (!(err instanceof WatchError)) {
+          throw err;
+        }
+      }
+    }
+
+    throw new Error(`${key} kept changing during the update`);
+  }
+
   /** Saves a given game object and refreshes its TTL */
   public async saveGameObj(gameObj: Game) {
     await this.redisClient.json.set(`game:${gameObj.id}`, "$", { ...gameObj });
 
     // update the expiry time.
     await this.redisClient.expire(`game:${gameObj.id}`, TTL);
+
+    await this.syncPublicGameIndex(gameObj.id, gameObj);
   }
 
-  /** Deletes a game obj */
+  /** Deletes a game obj along with its invite code, unless the code was already handed to another game */
   public async deleteGameObj(gameId: string) {
+    const inviteCode = (await this.redisClient.json.get(`game:${gameId}`, {
+      path: "$.inviteCode",
+    })) as string[] | null;
+
     await this.redisClient.json.del(`game:${gameId}`);
+
+    if (inviteCode?.[0]) {
+      await this.releaseInviteCode(inviteCode[0], gameId);
+    }
+
+    await this.syncPublicGameIndex(gameId, null);
+  }
+
+  /** Deletes the invite code of a deleted game, unless the code was already handed to another game */
+  private async releaseInviteCode(inviteCode: string, gameId: string) {
+    const codeKey = `inviteCode:${inviteCode}`;
+
+    if ((await this.redisClient.get(codeKey)) === gameId) {
+      await this.redisClient.del(codeKey);
+    }
   }
 
   /**
@@ -129,6 +430,175 @@ export class StorageService {
     return gameResultObj;
   }
 
+  /**
+   * Lists or unlists a game in the public game index after it was written, and announces the change.
+   * A game is listed while it is public, unlocked, waiting and has players. A listed game is announced on every write since its player count may have changed.
+   */
+  private async syncPublicGameIndex(gameId: string, gameObj: Game | null) {
+    const listed =
+      gameObj !== null &&
+      gameObj.settings.isPublic &&
+      !gameObj.isLocked &&
+      gameObj.status === GameStatus.WAITING &&
+      gameObj.playerIds.length > 0;
+
+    let changed = listed;
+
+    if (listed) {
+      await this.redisClient.zAdd(PUBLIC_GAMES_KEY, {
+        score: new Date(gameObj.createdAt).getTime(),
+        value: gameId,
+      });
+    } else {
+      changed = (await this.redisClient.zRem(PUBLIC_GAMES_KEY, gameId)) > 0;
+    }
+
+    if (changed) {
+      await this.redisClient.publish(PUBLIC_GAMES_CHANNEL, gameId);
+    }
+  }
+
+  /** Returns a page of the public game ids, newest first, along with the total count */
+  public async getPublicGameIds(offset: number, count: number) {
+    const gameIds = await this.redisClient.zRange(
+      PUBLIC_GAMES_KEY,
+      offset,
+      offset + count - 1,
+      { REV: true },
+    );
+    const total = await this.redisClient.zCard(PUBLIC_GAMES_KEY);
+
+    return { gameIds, total };
+  }
+
+  /** Drops a game from the public game index, e.g. once it expired */
+  public async removePublicGameId(gameId: string) {
+    await this.redisClient.zRem(PUBLIC_GAMES_KEY, gameId);
+  }
+
+  /** Puts a player on the matchmaking queue. A player already queued keeps its place */
+  public async enqueueMatchmaking(playerId: string) {
+    await this.redisClient.zAdd(
+      MATCHMAKING_QUEUE_KEY,
+      { score: Date.now(), value: playerId },
+      { NX: true },
+    );
+  }
+
+  /** Takes a player off the matchmaking queue. Returns false if it wasn't queued */
+  public async dequeueMatchmaking(playerId: string) {
+    return (await this.redisClient.zRem(MATCHMAKING_QUEUE_KEY, playerId)) > 0;
+  }
+
+  /** Atomically takes a group of queued players, see TAKE_MATCH_SCRIPT */
+  public async takeMatchmakingGroup(
+    maxSize: number,
+    minSize: number,
+    fillDeadline: number,
+  ) {
+    const playerIds = await this.redisClient.eval(TAKE_MATCH_SCRIPT, {
+      keys: [MATCHMAKING_QUEUE_KEY],
+      arguments: [String(maxSize), String(minSize), String(fillDeadline)],
+    });
+
+    return playerIds as string[];
+  }
+
+  /** Appends a message to the chat history of a game, keeping only the most recent ones, and refreshes its TTL */
+  public async appendChatMessage(gameId: string, message: ChatMessage) {
+    await this.redisClient
+      .multi()
+      .rPush(`chat:${gameId}`, JSON.stringify(message))
+      .lTrim(`chat:${gameId}`, -CHAT_HISTORY_LENGTH, -1)
+      .expire(`chat:${gameId}`, TTL)
+      .exec();
+  }
+
+  /** Returns the chat history of a game, oldest first */
+  public async getChatHistory(gameId: string) {
+    const messages = await this.redisClient.lRange(`chat:${gameId}`, 0, -1);
+
+    return messages.map((message) => JSON.parse(message) as ChatMessage);
+  }
+
+  /** Hands the chat history of a game over to another one, e.g. the game it was restarted as. The old history is removed */
+  public async moveChatHistory(fromGameId: string, toGameId: string) {
+    const historyExists = await this.redisClient.exists(`chat:${fromGameId}`);
+
+    if (historyExists !== 1) {
+      return;
+    }
+
+    // the history keeps its TTL
+    await this.redisClient.rename(`chat:${fromGameId}`, `chat:${toGameId}`);
+  }
+
+  /** Counts a chat message against the rate limit of a player. Returns the messages sent in the current window, including this one */
+  public async countChatMessage(playerId: string, windowMs: number) {
+    const [count] = await this.redisClient
+      .multi()
+      .incr(`chatRate:${playerId}`)
+      .pExpire(`chatRate:${playerId}`, windowMs, "NX")
+      .exec();
+
+    return Number(count);
+  }
+
+  /** Schedules a job for the given time in ms since the epoch, replacing the due time of the same job */
+  public async scheduleJob(job: string, dueAt: number) {
+    await this.redisClient.zAdd(SCHEDULED_JOBS_KEY, {
+      score: dueAt,
+      value: job,
+    });
+  }
+
+  /** Removes a job from the schedule, and from the claimed jobs so that it isn't run again if its run fails. Returns false if it wasn't scheduled, e.g. because it already fired */
+  public async cancelJob(job: string) {
+    const [removed] = await this.redisClient
+      .multi()
+      .zRem(SCHEDULED_JOBS_KEY, job)
+      .zRem(CLAIMED_JOBS_KEY, job)
+      .hDel(JOB_ATTEMPTS_KEY, job)
+      .exec();
+
+    return Number(removed) > 0;
+  }
+
+  /** Atomically claims the jobs that are due until the lease deadline, see CLAIM_DUE_JOBS_SCRIPT */
+  public async claimDueJobs(now: number, limit: number, leaseUntil: number) {
+    const jobs = await this.redisClient.eval(CLAIM_DUE_JOBS_SCRIPT, {
+      keys: [SCHEDULED_JOBS_KEY, CLAIMED_JOBS_KEY],
+      arguments: [String(now), String(limit), String(leaseUntil)],
+    });
+
+    return jobs as string[];
+  }
+
+  /** Releases a job that ran, see RELEASE_JOB_SCRIPT. Returns false if its lease was lost */
+  public async completeJob(job: string, leaseUntil: number) {
+    const released = await this.redisClient.eval(RELEASE_JOB_SCRIPT, {
+      keys: [CLAIMED_JOBS_KEY, SCHEDULED_JOBS_KEY, JOB_ATTEMPTS_KEY],
+      arguments: [job, String(leaseUntil)],
+    });
+
+    return released === 1;
+  }
+
+  /** Puts a job that failed back on the schedule, see RELEASE_JOB_SCRIPT. Returns false if its lease was lost */
+  public async retryJob(job: string, leaseUntil: number, dueAt: number) {
+    const released = await this.redisClient.eval(RELEASE_JOB_SCRIPT, {
+      keys: [CLAIMED_JOBS_KEY, SCHEDULED_JOBS_KEY, JOB_ATTEMPTS_KEY],
+      arguments: [job, String(leaseUntil), String(dueAt)],
+    });
+
+    return released === 1;
+  }
+
+  /** Counts a failed run of a job. Returns the failed runs so far, including this one */
+  public async countJobAttempt(job: string) {
+    return this.redisClient.hIncrBy(JOB_ATTEMPTS_KEY, job, 1);
+  }
+
   /** Saves a GameResult object and refreshes its TTL */
   public async saveGameResultObj(gameResultObj: GameResult) {
     await this.redisClient.json.set(`gameResult:${gameResultObj.id}`, "$", {
@@ -138,6 +608,144 @@ export class StorageService {
     await this.redisClient.expire(`gameResult:${gameResultObj.id}`, TTL);
   }
 
+  /**
+   * Atomically records the result of a player, see RECORD_PLAYER_RESULT_SCRIPT.
+   * Returns false if the player was already recorded for the game.
+   */
+  public async recordPlayerResult(
+    emptyResultObj: GameResult,
+    entry: GameResult["players"][number],
+  ) {
+    const recorded = await this.redisClient.eval(RECORD_PLAYER_RESULT_SCRIPT, {
+      keys: [`gameResult:${emptyResultObj.id}`],
+      arguments: [
+        JSON.stringify(emptyResultObj),
+        JSON.stringify(entry),
+        String(TTL),
+      ],
+    });
+
+    return recorded === 1;
+  }
+
+  /** Flags a player for the given game and refreshes the TTL of the flags. An existing flag is kept */
+  public async savePlayerFlag(
+    gameId: string,
+    playerId: string,
+    reason: FlagReason,
+  ) {
+    await this.redisClient.hSetNX(`gameFlags:${gameId}`, playerId, reason);
+
+    await this.redisClient.expire(`gameFlags:${gameId}`, TTL);
+  }
+
+  /** Returns the rating of a player, the initial one if it was never rated */
+  public async getPlayerRating(playerId: string): Promise<PlayerRating> {
+    const { rating, ratedRaces } = await this.redisClient.hGetAll(
+      `rating:${playerId}`,
+    );
+
+    return {
+      rating: rating ? Number(rating) : INITIAL_RATING,
+      ratedRaces: ratedRaces ? Number(ratedRaces) : 0,
+    };
+  }
+
+  /** Applies the rating change of a rated race to the player in one step. The rating never expires */
+  public async applyRatingChange(playerId: string, change: number) {
+    await this.redisClient
+      .multi()
+      .hSetNX(`rating:${playerId}`, "rating", String(INITIAL_RATING))
+      .hIncrBy(`rating:${playerId}`, "rating", change)
+      .hIncrBy(`rating:${playerId}`, "ratedRaces", 1)
+      .exec();
+  }
+
+  /** Returns the flag of a player for the given game, null if the player was not flagged */
+  public async getPlayerFlag(gameId: string, playerId: string) {
+    const reason = await this.redisClient.hGet(`gameFlags:${gameId}`, playerId);
+
+    return (reason as FlagReason | undefined) ?? null;
+  }
+
+  /** Saves the progress of a player for the given game and refreshes the TTL of the progress */
+  public async savePlayerProgress(
+    gameId: string,
+    playerId: string,
+    progress: PlayerProgress,
+  ) {
+    await this.redisClient.hSet(
+      `gameProgress:${gameId}`,
+      playerId,
+      JSON.stringify(progress),
+    );
+
+    await this.redisClient.expire(`gameProgress:${gameId}`, TTL);
+  }
+
+  /** Returns the progress of a player for the given game, null if none was recorded */
+  public async getPlayerProgress(gameId: string, playerId: string) {
+    const progress = await this.redisClient.hGet(
+      `gameProgress:${gameId}`,
+      playerId,
+    );
+
+    return progress ? (JSON.parse(progress) as PlayerProgress) : null;
+  }
+
+  /** Appends the keystrokes of a player starting at the given index of the log, see APPEND_KEYSTROKES_SCRIPT */
+  public async appendKeystrokes(
+    gameId: string,
+    playerId: string,
+    offset: number,
+    keystrokes: KeystrokeEntry[],
+  ) {
+    const length = await this.redisClient.eval(APPEND_KEYSTROKES_SCRIPT, {
+      keys: [`gameKeystrokes:${gameId}:${playerId}`],
+      arguments: [
+        String(offset),
+        String(TTL),
+        ...keystrokes.map((entry) => JSON.stringify(entry)),
+      ],
+    });
+
+    return Number(length);
+  }
+
+  /** Returns the stored keystroke log of a player for the given game */
+  public async getKeystrokes(gameId: string, playerId: string) {
+    const entries = await this.redisClient.lRange(
+      `gameKeystrokes:${gameId}:${playerId}`,
+      0,
+      -1,
+    );
+
+    return entries.map((entry) => JSON.parse(entry) as KeystrokeEntry);
+  }
+
+  /** Maps an unused invite code to the given game with the game's TTL. Returns false if the code is already taken */
+  public async reserveInviteCode(inviteCode: string, gameId: string) {
+    const reserved = await this.redisClient.set(
+      `inviteCode:${inviteCode}`,
+      gameId,
+      { NX: true, EX: TTL },
+    );
+
+    return reserved === "OK";
+  }
+
+  /** Points an invite code at the given game, replacing the game it was mapped to */
+  public async moveInviteCode(inviteCode: string, gameId: string) {
+    await this.redisClient.set(`inviteCode:${inviteCode}`, gameId, {
+      EX: TTL,
+    });
+  }
+
+  /** Returns the gameId an invite code is mapped to, null if the code is unknown */
+  public async getGameIdByInviteCode(inviteCode: string) {
+    return this.redisClient.get(`inviteCode:${inviteCode}`);
+  }
+
   /** Verifies whether a player object with the given playerId exists or not */
   public async validatePlayerId(playerId: string) {
     const playerExists = await this.redisClient.exists(`player:${playerId}`);
@@ -6,20 +6,30 @@ export enum MessageEvent {
   "CONNECT" = "connect",
   "CREATE_GAME" = "create_game",
   "JOIN_GAME" = "join_game",
-  "GET_LOBBY" = "get_lobby",
   "CHANGE_USERNAME" = "change_username",
   "START_GAME" = "start_game",
-  "GET_GAME_PLAYERS" = "get_game_players",
   "PLAYER_UPDATE" = "player_update",
   "FINISH_GAME" = "finish_game",
-  "CHECK_GAME_ID" = "check_game_id",
-  "GET_GAME_TEXT" = "get_game_text",
-  "GET_GAME_RESULT" = "get_game_result",
   "RESTART_GAME" = "restart_game",
   "LEAVE_GAME" = "leave_game",
   "DISCONNECT" = "disconnected",
   "REJOIN_GAME" = "rejoin_game",
   "CANCEL_REJOIN" = "cancel_rejoin",
+  "UPDATE_SETTINGS" = "update_settings",
+  "SET_CUSTOM_TEXT" = "set_custom_text",
+  "REPORT_INPUT_EVENT" = "report_input_event",
+  "SPECTATE_GAME" = "spectate_game",
+  "LIST_PUBLIC_GAMES" = "list_public_games",
+  "QUICK_RACE" = "quick_race",
+  "CANCEL_QUICK_RACE" = "cancel_quick_race",
+  "MATCH_FOUND" = "match_found",
+  "KICK_PLAYER" = "kick_player",
+  "TRANSFER_HOST" = "transfer_host",
+  "LOCK_LOBBY" = "lock_lobby",
+  "SET_READY" = "set_ready",
+  "GET_GAME_STATE" = "get_game_state",
+  "SEND_CHAT" = "send_chat",
+  "GET_CHAT_HISTORY" = "get_chat_history",
 }
 
 export interface WebSocketMessage {
@@ -31,12 +41,24 @@ export enum BroadcastEvent {
   "NEW_PLAYER_JOINED" = "new_player_joined",
   "USERNAME_CHANGED" = "username_changed",
   "GAME_STARTING" = "game_starting",
-  "GAME_STARTING_COUNTDOWN" = "game_starting_countdown",
   "GAME_STARTED" = "game_start",
   "PLAYER_UPDATE" = "player_update",
   "FINISH_GAME" = "finish_game",
   "PLAYER_LEFT" = "player_left",
   "GAME_RESTARTING" = "game_restarting",
+  "SETTINGS_UPDATED" = "settings_updated",
+  "TIME_UP" = "time_up",
+  "CUSTOM_TEXT_UPDATED" = "custom_text_updated",
+  "SPECTATORS_UPDATED" = "spectators_updated",
+  "PUBLIC_GAMES_UPDATED" = "public_games_updated",
+  "CHAT_MESSAGE" = "chat_message",
+  "PLAYER_KICKED" = "player_kicked",
+  "HOST_CHANGED" = "host_changed",
+  "LOBBY_LOCKED" = "lobby_locked",
+  "READY_UPDATED" = "ready_updated",
+  "COUNTDOWN_CANCELLED" = "countdown_cancelled",
+  "PLAYER_DISCONNECTED" = "player_disconnected",
+  "PLAYER_RECONNECTED" = "player_reconnected",
 }
 
 export interface BroadcastMessage {
@@ -46,13 +68,78 @@ export interface BroadcastMessage {
 
 export interface Game {
   id: string;
+  inviteCode: string; // the short code players type in to join, mapped to the id in storage
   hostId: string;
   playerIds: string[];
+  spectatorIds: string[]; // watch the race without taking part, never counted as players
+  bannedIds: string[]; // kicked by the host, turned away for the rest of the game's lifetime
+  readyIds: string[]; // the players who marked themselves ready in the lobby
+  disconnectedIds: string[]; // the players who dropped out of the started game and can still reconnect, see RECONNECT_GRACE_PERIOD
+  isLocked: boolean; // a locked lobby admits no new players
   status: GameStatus;
   gameText: string;
+  settings: GameSettings;
+  passage: PassageInfo | null; // metadata of the passage in gameText, set when the game starts
+  startedAt: number | null; // the authoritative start of the race in ms since the epoch, set when the game goes in progress
+  countdownEndsAt: number | null; // when the race goes in progress in ms since the epoch, set while the game is starting
   createdAt: Date;
 }
 
+/** The built-in sources a game can draw its passage from */
+export enum PassageSource {
+  WORDS = "words",
+  QUOTES = "quotes",
+  NUMBERS = "numbers",
+  CODE = "code",
+  CUSTOM = "custom", // supplied by the host, see CUSTOM_TEXT_LIMITS
+}
+
+/** Metadata describing where a passage came from */
+export type PassageInfo = {
+  id: string;
+  source: PassageSource;
+  title: string | null;
+  author: string | null;
+};
+
+export type Passage = PassageInfo & {
+  text: string;
+};
+
+/** Options passed to a passage provider when generating a passage */
+export type PassageOptions = {
+  wordCount: number;
+};
+
+/** Why a player was turned away from a game, rendered by the landing page */
+export enum JoinErrorCode {
+  NOT_FOUND = "not_found",
+  FULL = "full",
+  ALREADY_STARTED = "already_started",
+  FINISHED = "finished",
+  LOCKED = "locked",
+  BANNED = "banned",
+}
+
+/** How a race is decided */
+export enum GameMode {
+  FINISH = "finish", // the race ends when everyone finishes the text, ranked by finish order
+  TIMED = "timed", // the race ends when the clock runs out, ranked by net wpm
+}
+
+/** Lobby settings that the host can configure while the game is waiting */
+export type GameSettings = {
+  mode: GameMode;
+  timeLimit: number; // in seconds, only used by the timed mode
+  maxDuration: number; // in seconds, a finish race is ended for the players still typing after it
+  passageSource: PassageSource;
+  wordCount: number;
+  countdown: number; // in seconds
+  maxPlayers: number;
+  isPublic: boolean; // listed in the public lobby browser while waiting
+  autoStart: boolean; // the race starts by itself once every player is ready
+};
+
 export enum GameStatus {
   WAITING = "waiting",
   STARTING = "starting",
@@ -71,6 +158,12 @@ export interface Player {
   currentGameId: string | null;
 }
 
+/** The skill rating of a player. It outlives the player object, so it is kept under a key of its own without a TTL */
+export type PlayerRating = {
+  rating: number; // updated after every rated race
+  ratedRaces: number; // the rating is provisional until enough races were rated
+};
+
 export type NewPlayerInfo = {
   playerId: string;
   playerName: string;
@@ -79,22 +172,170 @@ export type NewPlayerInfo = {
 export interface GameResult {
   id: string; // same as the gameId
   hostId: string; // the id of the host player
+  mode: GameMode;
   players: {
     id: string;
     name: string;
     wpm: number;
-    accuracy: number;
+    accuracy: number | null; // null for a player who didn't finish and never sent a keystroke log
     time: number;
-    position: number;
+    characters: number; // correctly typed characters
+    dnf: boolean; // did not finish, ranked after everyone who did
+    position: number | null; // null when flagged, a flagged player is not ranked
+    flagged: FlagReason | null;
+    ratingChange: number | null; // null when the race was not rated for the player, e.g. a solo race
+    provisional: boolean; // whether the rating was still provisional going into the race
   }[];
 }
 
+/** Why a result was flagged by the cheat detection */
+export enum FlagReason {
+  PASTE = "paste", // text was pasted or dropped into the input
+  BURST = "burst", // a burst of keystrokes with near-zero intervals
+  SPEED = "speed", // a sustained speed beyond the configured ceiling
+}
+
 export const MIN_SIZE = 1;
-export const MAX_SIZE = 5;
+export const MAX_SIZE = 10;
 export const TTL = 3600;
 
+export const DEFAULT_SETTINGS: GameSettings = {
+  mode: GameMode.FINISH,
+  timeLimit: 60,
+  maxDuration: 300,
+  passageSource: PassageSource.WORDS,
+  wordCount: 50,
+  countdown: 10,
+  maxPlayers: 5,
+  isPublic: false,
+  autoStart: false,
+};
+
+/** The inclusive bounds for the numeric game settings */
+export const SETTINGS_LIMITS = {
+  wordCount: { min: 10, max: 200 },
+  countdown: { min: 3, max: 30 },
+  maxPlayers: { min: MIN_SIZE, max: MAX_SIZE },
+  timeLimit: { min: 15, max: 300 },
+  maxDuration: { min: 60, max: 900 },
+};
+
+/** The inclusive length bounds of a custom text, checked after it is normalized */
+export const CUSTOM_TEXT_LIMITS = { min: 20, max: 2000 };
+
+/** Words generated per minute of a timed race so that no one runs out of text */
+export const TIMED_WORDS_PER_MINUTE = 200;
+
+/** Time given to the clients to submit their results after the clock of a race runs out (in ms) */
+export const TIMED_RESULT_GRACE = 3000;
+
+/** The performance metrics of a player, computed by the server from the keystroke log */
 export interface FinishGamePayload {
   wpm: number;
   accuracy: number;
   time: number;
+  characters: number;
+}
+
+/**
+ * A single change to the typed input: [ms since the race started, characters deleted from the end, characters inserted at the end].
+ * An edit in the middle of the input is sent as deleting back to the edit and inserting the rest again.
+ */
+export type KeystrokeEntry = [number, number, string];
+
+/** The upper bound on the entries of a keystroke log */
+export const MAX_KEYSTROKES = 50000;
+
+/** The last accepted progress of a player during a race */
+export type PlayerProgress = {
+  position: number;
+  updatedAt: number; // ms since the epoch
+};
+
+/** How far a keystroke log may run ahead of the server clock, covering the error of the client's offset estimate (in ms) */
+export const CLOCK_TOLERANCE = 1000;
+
+/** Characters a progress update may run ahead of the speed limit, e.g. for auto-skipped indentation */
+export const PROGRESS_ALLOWANCE = 20;
+
+/** A public game as listed in the lobby browser */
+export type PublicGameSummary = {
+  gameId: string;
+  hostName: string;
+  playerCount: number;
+  maxPlayers: number;
+  mode: GameMode;
+  passageSource: PassageSource;
+};
+
+/** The sorted set indexing the public WAITING games by their creation time, and the channel announcing its changes */
+export const PUBLIC_GAMES_KEY = "publicGames";
+export const PUBLIC_GAMES_CHANNEL = "publicGames:updates";
+
+/** The number of public games on a page of the lobby browser */
+export const PUBLIC_GAMES_PAGE_SIZE = 10;
+
+/** Invite codes leave out characters that are easily confused with each other, such as 0/O and 1/I */
+export const INVITE_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+export const INVITE_CODE_LENGTH = 6;
+
+/** The sorted set of players waiting for a quick race by the time they queued, and the channel announcing the matches made from it */
+export const MATCHMAKING_QUEUE_KEY = "matchmakingQueue";
+export const MATCHMAKING_CHANNEL = "matchmaking:matches";
+
+/** How long the oldest queued player waits for the queue to fill up before a smaller race is formed (in ms) */
+export const MATCHMAKING_FILL_TIMEOUT = 10000;
+
+/** Time given to the matched players to reach the game before its countdown starts (in ms) */
+export const MATCH_START_DELAY = 3000;
+
+/** The rating a new player starts from */
+export const INITIAL_RATING = 1500;
+
+/** Races a player has to complete before its rating is no longer provisional */
+export const PROVISIONAL_RACES = 5;
+
+/** A message sent to the chat of a game */
+export type ChatMessage = {
+  id: string;
+  playerId: string;
+  playerName: string;
+  text: string;
+  sentAt: number; // ms since the epoch
+};
+
+/** The number of recent messages kept in the chat history of a game */
+export const CHAT_HISTORY_LENGTH = 50;
+
+/** The longest chat message accepted, checked after it is trimmed */
+export const CHAT_MESSAGE_MAX_LENGTH = 200;
+
+/** How many chat messages a player may send within the window (in ms) */
+export const CHAT_RATE_LIMIT = { messages: 5, windowMs: 10000 };
+
+/** The game transitions fired by the scheduler once they are due */
+export enum ScheduledJobType {
+  START_MATCH = "start_match", // a quick race begins its countdown once the players arrived
+  START_RACE = "start_race", // the countdown ran out
+  TIME_UP = "time_up", // the clock of the race ran out
+  COMPLETE_GAME = "complete_game", // the clients had their chance to submit the results of the race
+  DROP_PLAYER = "drop_player", // a disconnected player did not come back in time
 }
+
+/** The sorted set of scheduled jobs by their due time */
+export const SCHEDULED_JOBS_KEY = "scheduledJobs";
+
+/** The sorted set of the jobs being run by their lease deadline */
+export const CLAIMED_JOBS_KEY = "claimedJobs";
+
+/** The failed runs of the scheduled jobs, a job that keeps failing is given up */
+export const JOB_ATTEMPTS_KEY = "jobAttempts";
+
+/** How often every instance checks for due jobs (in ms) */
+export const SCHEDULER_POLL_INTERVAL = 250;
+
+/** How long a claimed job may run before it is handed to another instance, e.g. because the one running it died (in ms) */
+export const JOB_LEASE_DURATION = 30000;
+
+/** How long a player who dropped out of a started game keeps their place before being removed from the game (in ms) */
+export const RECONNECT_GRACE_PERIOD = 30000;
@@ -2,6 +2,7 @@ import { Route, Routes } from "react-router";
 import { Toaster } from "sonner";
 import { WebSocketProvider } from "./context/WebSocketContextProvider";
 import Game from "./pages/Game";
+import Join from "./pages/Join";
 import Landing from "./pages/Landing";
 
 export default function AppRoutes() {
@@ -12,6 +13,7 @@ export default function AppRoutes() {
         <Routes>
           <Route path="/" Component={Landing} />
           <Route path="/game/:gameId" Component={Game} />
+          <Route path="/join/:code" Component={Join} />
         </Routes>
       </main>
     </WebSocketProvider>
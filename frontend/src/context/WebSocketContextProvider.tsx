@@ -1,7 +1,7 @@
 import { ReactNode } from "react";
 import { WebSocketContext } from "../hooks/useWebSocket";
 import { ConnectionStatus } from "../types";
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router";
 import { toast } from "sonner";
 
@@ -10,6 +10,7 @@ type WebSocketResponse =
       event: "health_check";
       payload: {
         message: string;
+        serverTime: number;
       };
     }
   | {
@@ -23,6 +24,7 @@ type WebSocketResponse =
       event: "error";
       payload: {
         message: string;
+        code?: string;
       };
     }
   | {
@@ -39,6 +41,11 @@ export function WebSocketProvider({ children }: ProviderProps) {
   const [existingGameId, setExistingGameId] = useState<string | null>(null);
   const healthCheckIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const pendingHealthCheckRef = useRef<boolean>(false);
+  const healthCheckSentAtRef = useRef<number>(0);
+  // the server clock minus the local clock, taken from the health check with the shortest round trip
+  const clockOffsetRef = useRef<{ offset: number; roundTrip: number } | null>(
+    null,
+  );
 
   const navigator = useNavigate();
 
@@ -51,6 +58,23 @@ export function WebSocketProvider({ children }: ProviderProps) {
         clearInterval(healthCheckIntervalRef.current);
       }
 
+      const sendHealthCheck = () => {
+        pendingHealthCheckRef.current = true;
+        healthCheckSentAtRef.current = Date.now();
+
+        ws.send(
+          JSON.stringify({
+            event: "health_check",
+            payload: {},
+          }),
+        );
+      };
+
+      // estimate the clock offset right away instead of waiting for the first interval
+      if (ws.readyState === WebSocket.OPEN) {
+        sendHealthCheck();
+      }
+
       healthCheckIntervalRef.current = setInterval(() => {
         if (pendingHealthCheckRef.current) {
           // we did not hear the health check echo, fail the socket.
@@ -60,14 +84,7 @@ export function WebSocketProvider({ children }: ProviderProps) {
 
           removeHealthCheckListeners();
         } else if (ws.readyState === WebSocket.OPEN) {
-          pendingHealthCheckRef.current = true;
-
-          ws.send(
-            JSON.stringify({
-              event: "health_check",
-              payload: {},
-            }),
-          );
+          sendHealthCheck();
         }
       }, 5000);
     };
@@ -119,6 +136,20 @@ export function WebSocketProvider({ children }: ProviderProps) {
             // clear the buffer timeout because the response was received
             pendingHealthCheckRef.current = false;
 
+            // assume the server stamped the response halfway through the round trip
+            const receivedAt = Date.now();
+            const roundTrip = receivedAt - healthCheckSentAtRef.current;
+
+            if (
+              !clockOffsetRef.current ||
+              roundTrip <= clockOffsetRef.current.roundTrip
+            ) {
+              clockOffsetRef.current = {
+                offset: data.payload.serverTime + roundTrip / 2 - receivedAt,
+                roundTrip,
+              };
+            }
+
             break;
           }
           case "connect": {
@@ -146,7 +177,10 @@ export function WebSocketProvider({ children }: ProviderProps) {
             break;
           }
           case "error": {
-            toast.error(data.payload.message);
+            // an error with a code is rendered by the page that caused it
+            if (!data.payload.code) {
+              toast.error(data.payload.message);
+            }
 
             break;
           }
@@ -185,8 +219,15 @@ export function WebSocketProvider({ children }: ProviderProps) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const getClockOffset = useCallback(
+    () => clockOffsetRef.current?.offset ?? 0,
+    [],
+  );
+
   return (
-    <WebSocketContext.Provider value={[socket, status, existingGameId]}>
+    <WebSocketContext.Provider
+      value={[socket, status, existingGameId, getClockOffset]}
+    >
       {children}
     </WebSocketContext.Provider>
   );
@@ -0,0 +1,77 @@
+import { useEffect, useState } from "react";
+import { useSocketMessaging } from "./useSocketMessaging";
+import { ChatMessage } from "../types";
+
+type WebSocketResponse =
+  | {
+      event: "get_chat_history";
+      payload: {
+        messages: ChatMessage[];
+      };
+    }
+  | {
+      event: "chat_message";
+      payload: {
+        message: ChatMessage;
+      };
+    };
+
+/**
+ * Manages the chat of the current game
+ * - retrieves the recent messages so that a late joiner or a refreshed page catches up
+ * - appends the messages broadcast to the game
+ */
+export default function useChat() {
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const { socket, sendMessage } = useSocketMessaging();
+
+  useEffect(() => {
+    if (!socket) {
+      return;
+    }
+
+    sendMessage("get_chat_history");
+
+    const handleMessage = (event: MessageEvent) => {
+      let data: WebSocketResponse | null = null;
+
+      try {
+        data = JSON.parse(event.data);
+      } catch (err) {
+        console.error("couldn't parse the backend response", err);
+      }
+
+      if (data) {
+        switch (data.event) {
+          case "get_chat_history": {
+            setMessages(data.payload.messages);
+            break;
+          }
+
+          case "chat_message": {
+            const message = data.payload.message;
+
+            setMessages((prevMessages) =>
+              prevMessages.some(({ id }) => id === message.id)
+                ? prevMessages
+                : [...prevMessages, message],
+            );
+            break;
+          }
+        }
+      }
+    };
+
+    socket.addEventListener("message", handleMessage);
+
+    return () => {
+      socket.removeEventListener("message", handleMessage);
+    };
+  }, [socket, sendMessage]);
+
+  const sendChat = (text: string) => {
+    sendMessage("send_chat", { text });
+  };
+
+  return { messages, sendChat };
+}
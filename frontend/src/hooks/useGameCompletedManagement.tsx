@@ -1,29 +1,18 @@
 import { useEffect, useState } from "react";
 import { useSocketMessaging } from "./useSocketMessaging";
-
-type GameResult = {
-  hostId?: string;
-  players: {
-    id: string;
-    name: string;
-    wpm: number;
-    accuracy: number;
-    time: number;
-    position: number;
-  }[];
-};
+import { GameMode, GameResult, GameState } from "../types";
 
 type WebSocketResponse = {
-  event: "get_game_result";
+  event: "get_game_state";
   payload: {
-    hostId: string;
-    players: GameResult["players"];
+    state: GameState | null;
   };
 };
 
 export default function useGameCompletedManagement() {
   const { socket, sendMessage } = useSocketMessaging();
   const [result, setResult] = useState<GameResult>({
+    mode: GameMode.FINISH,
     players: [],
   });
 
@@ -33,7 +22,7 @@ export default function useGameCompletedManagement() {
     }
 
     // request for the result of this game
-    sendMessage("get_game_result");
+    sendMessage("get_game_state");
 
     const handleMessage = (event: MessageEvent) => {
       let data: WebSocketResponse | null = null;
@@ -41,7 +30,9 @@ export default function useGameCompletedManagement() {
       try {
         data = JSON.parse(event.data, (key, value) => {
           if (
-            ["wpm", "accuracy", "time", "position"].includes(key) &&
+            ["wpm", "accuracy", "time", "characters", "position"].includes(
+              key,
+            ) &&
             typeof value === "string"
           ) {
             return Number(value);
@@ -54,11 +45,12 @@ export default function useGameCompletedManagement() {
 
       if (data) {
         switch (data.event) {
-          case "get_game_result": {
-            setResult({
-              hostId: data.payload.hostId,
-              players: data.payload.players
-            });
+          case "get_game_state": {
+            const gameResult = data.payload.state?.result;
+
+            if (gameResult) {
+              setResult(gameResult);
+            }
             break;
           }
         }
@@ -70,8 +62,8 @@ export default function useGameCompletedManagement() {
     return () => socket.removeEventListener("message", handleMessage);
   }, [socket, sendMessage]);
 
-  const restartGame = () => {
-    sendMessage("restart_game");
+  const restartGame = (keepCustomText = false) => {
+    sendMessage("restart_game", { keepCustomText });
   };
 
   const leaveGame = () => {
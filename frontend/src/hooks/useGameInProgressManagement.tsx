@@ -1,17 +1,19 @@
 import { useCallback, useEffect, useState } from "react";
 import { useSocketMessaging } from "./useSocketMessaging";
+import { useWebSocket } from "./useWebSocket";
+import {
+  GameSettings,
+  GameState,
+  KeystrokeEntry,
+  PassageInfo,
+  RaceProgress,
+} from "../types";
 
 type WebSocketResponse =
   | {
-      event: "get_game_text";
+      event: "get_game_state";
       payload: {
-        gameText: string;
-      };
-    }
-  | {
-      event: "get_game_players";
-      payload: {
-        players: { playerId: string; playerName: string; position: string }[];
+        state: GameState | null;
       };
     }
   | {
@@ -27,27 +29,48 @@ type WebSocketResponse =
         updatedHostId: string;
         playerId: string;
       };
+    }
+  | {
+      event: "player_disconnected" | "player_reconnected";
+      payload: {
+        playerId: string;
+      };
+    }
+  | {
+      event: "time_up";
+    }
+  | {
+      event: "spectators_updated";
+      payload: {
+        spectators: { playerId: string; playerName: string }[];
+      };
     };
 
 type Player = {
   playerId: string;
   playerName: string;
   position: number;
+  isDisconnected: boolean; // dropped out of the race, may still reconnect
 };
 
 export default function useGameInProgressManagement() {
   const { socket, sendMessage } = useSocketMessaging();
+  const { 3: getClockOffset } = useWebSocket();
   const [gameText, setGameText] = useState("");
+  const [passage, setPassage] = useState<PassageInfo | null>(null);
+  const [settings, setSettings] = useState<GameSettings | null>(null);
+  const [isTimeUp, setIsTimeUp] = useState(false);
   const [gameStartTime, setGameStartTime] = useState<number | null>(null);
+  const [resume, setResume] = useState<RaceProgress | null>(null);
   const [players, setPlayers] = useState<Player[]>([]);
+  const [spectatorCount, setSpectatorCount] = useState(0);
 
   useEffect(() => {
     if (!socket) {
       return;
     }
 
-    sendMessage("get_game_text");
-    sendMessage("get_game_players");
+    sendMessage("get_game_state");
 
     const handleMessage = (event: MessageEvent) => {
       let data: WebSocketResponse | null = null;
@@ -60,23 +83,29 @@ export default function useGameInProgressManagement() {
 
       if (data) {
         switch (data.event) {
-          case "get_game_text": {
-            setGameText(data.payload.gameText);
+          case "get_game_state": {
+            const { state } = data.payload;
 
-            // mark the game as starting
-            setGameStartTime(Date.now());
-            break;
-          }
-          case "get_game_players": {
-            // convert the incoming position from type string to number
+            if (!state?.gameText || state.startedAt === null) break;
 
+            setGameText(state.gameText);
+            setPassage(state.passage);
+            setSettings(state.settings);
+
+            // the server's start epoch, translated to the local clock
+            setGameStartTime(state.startedAt - getClockOffset());
+            setResume(state.resume);
+
+            // convert the incoming position from type string to number
             setPlayers(
-              data.payload.players.map((player) => ({
+              state.players.map((player) => ({
                 playerId: player.playerId,
                 playerName: player.playerName,
                 position: Number(player.position),
+                isDisconnected: player.isDisconnected,
               })),
             );
+            setSpectatorCount(state.lobby.spectators.length);
 
             break;
           }
@@ -100,6 +129,28 @@ export default function useGameInProgressManagement() {
             );
             break;
           }
+          case "player_disconnected":
+          case "player_reconnected": {
+            const isDisconnected = data.event === "player_disconnected";
+
+            setPlayers((prevPlayers) =>
+              prevPlayers.map((player) =>
+                player.playerId === data!.payload.playerId
+                  ? { ...player, isDisconnected }
+                  : player,
+              ),
+            );
+            break;
+          }
+          case "time_up": {
+            // the server ended the timed race
+            setIsTimeUp(true);
+            break;
+          }
+          case "spectators_updated": {
+            setSpectatorCount(data.payload.spectators.length);
+            break;
+          }
         }
       }
     };
@@ -109,25 +160,43 @@ export default function useGameInProgressManagement() {
     return () => {
       socket.removeEventListener("message", handleMessage);
     };
-  }, [socket, sendMessage]);
+  }, [socket, sendMessage, getClockOffset]);
 
+  // the keystrokes typed since the last update go along, starting at the given offset of the log
   const sendUpdatedPosition = useCallback(
-    (position: number) => {
-      sendMessage("player_update", { position });
+    (position: number, keystrokes: KeystrokeEntry[], offset: number) => {
+      sendMessage("player_update", { position, keystrokes, offset });
     },
     [sendMessage],
   );
 
   const finishGame = useCallback(
-    (wpm: number, accuracy: number, time: number) => {
+    (keystrokes: KeystrokeEntry[]) => {
       sendMessage("finish_game", {
-        wpm,
-        accuracy,
-        time,
+        keystrokes,
       });
     },
     [sendMessage],
   );
 
-  return { gameText, sendUpdatedPosition, players, gameStartTime, finishGame };
+  const reportInputEvent = useCallback(
+    (type: "paste" | "drop") => {
+      sendMessage("report_input_event", { type });
+    },
+    [sendMessage],
+  );
+
+  return {
+    gameText,
+    passage,
+    settings,
+    isTimeUp,
+    sendUpdatedPosition,
+    players,
+    spectatorCount,
+    gameStartTime,
+    resume,
+    finishGame,
+    reportInputEvent,
+  };
 }
@@ -1,21 +1,50 @@
-import { useEffect } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useNavigate } from "react-router";
 import { useSocketMessaging } from "./useSocketMessaging";
+import { JoinErrorCode } from "../types";
 
-type WebSocketResponse = {
-  event: "join_game" | "create_game";
-  payload: {
-    gameId: string;
-  };
-};
+type WebSocketResponse =
+  | {
+      event:
+        | "join_game"
+        | "create_game"
+        | "rejoin_game"
+        | "spectate_game"
+        | "match_found";
+      payload: {
+        gameId: string;
+      };
+    }
+  | {
+      event: "cancel_rejoin" | "quick_race" | "cancel_quick_race";
+    }
+  | {
+      event: "error";
+      payload: {
+        message: string;
+        code?: JoinErrorCode;
+      };
+    };
 
 /**
  * Manages game room operations via WebSocket.
- * Handles the creation of new game rooms and joining existing ones, redirecting as required.
+ * Handles the creation of new game rooms, joining existing ones and spectating them, redirecting as required.
+ * A player still holding a seat in another game can give it up before joining.
+ * Quick races are found through the matchmaking queue, which is left when the page unmounts.
  */
 export default function useGamePortal() {
   const { socket, sendMessage } = useSocketMessaging();
   const navigator = useNavigate();
+  const [joinError, setJoinError] = useState<JoinErrorCode | null>(null);
+  // the game to join once the server has released the player from its previous one
+  const pendingJoinRef = useRef<string | null>(null);
+  const [isQueued, setIsQueued] = useState(false);
+  const isQueuedRef = useRef(false);
+
+  const updateQueued = (queued: boolean) => {
+    isQueuedRef.current = queued;
+    setIsQueued(queued);
+  };
 
   useEffect(() => {
     const handleMessage = (event: MessageEvent) => {
@@ -30,9 +59,21 @@ export default function useGamePortal() {
       if (
         data?.event === "create_game" ||
         data?.event === "join_game" ||
-        data?.event === "rejoin_game"
+        data?.event === "rejoin_game" ||
+        data?.event === "spectate_game" ||
+        data?.event === "match_found"
       ) {
+        updateQueued(false);
         navigator(`/game/${data.payload.gameId}`);
+      } else if (data?.event === "quick_race") {
+        updateQueued(true);
+      } else if (data?.event === "cancel_quick_race") {
+        updateQueued(false);
+      } else if (data?.event === "cancel_rejoin" && pendingJoinRef.current) {
+        joinGame(pendingJoinRef.current);
+        pendingJoinRef.current = null;
+      } else if (data?.event === "error" && data.payload.code) {
+        setJoinError(data.payload.code);
       }
     };
 
@@ -45,13 +86,56 @@ export default function useGamePortal() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [socket]);
 
+  useEffect(() => {
+    // don't leave the player waiting in the queue once the page is gone
+    return () => {
+      if (isQueuedRef.current) {
+        sendMessage("cancel_quick_race");
+      }
+    };
+  }, [sendMessage]);
+
   const createGame = () => {
     sendMessage("create_game");
   };
 
   const joinGame = (gameId: string) => {
+    setJoinError(null);
     sendMessage("join_game", { gameId });
   };
 
-  return { createGame, joinGame };
+  const spectateGame = (gameId: string) => {
+    setJoinError(null);
+    sendMessage("spectate_game", { gameId });
+  };
+
+  const leaveExistingGameAndJoin = (gameId: string) => {
+    pendingJoinRef.current = gameId;
+    sendMessage("cancel_rejoin");
+  };
+
+  const rejoinExistingGame = () => {
+    sendMessage("rejoin_game");
+  };
+
+  const quickRace = () => {
+    setJoinError(null);
+    sendMessage("quick_race");
+  };
+
+  const cancelQuickRace = () => {
+    sendMessage("cancel_quick_race");
+  };
+
+  return {
+    createGame,
+    joinGame,
+    spectateGame,
+    leaveExistingGameAndJoin,
+    rejoinExistingGame,
+    quickRace,
+    cancelQuickRace,
+    isQueued,
+    joinError,
+  };
 }
@@ -1,15 +1,27 @@
 import { useEffect, useState } from "react";
 import { useSocketMessaging } from "./useSocketMessaging";
+import { useWebSocket } from "./useWebSocket";
+import { GameState } from "../types";
 
-type WebSocketResponse = {
-  event: "game_starting_countdown";
-  payload: {
-    count: number;
-  };
-};
+type WebSocketResponse =
+  | {
+      event: "get_game_state";
+      payload: {
+        state: GameState | null;
+      };
+    }
+  | {
+      event: "game_starting";
+      payload: {
+        startsAt: number;
+      };
+    };
 
+/** Custom hook to count down to the start of the race. The server only sends the deadline, the seconds left are counted locally */
 export default function useGameStartingManagement() {
-  const { socket } = useSocketMessaging();
+  const { socket, sendMessage } = useSocketMessaging();
+  const { 3: getClockOffset } = useWebSocket();
+  const [startsAt, setStartsAt] = useState<number | null>(null);
   const [count, setCount] = useState<number>();
 
   useEffect(() => {
@@ -17,6 +29,9 @@ export default function useGameStartingManagement() {
       return;
     }
 
+    // the countdown may already be running when the page mounts
+    sendMessage("get_game_state");
+
     const handleMessage = (event: MessageEvent) => {
       let data: WebSocketResponse | null = null;
 
@@ -28,8 +43,18 @@ export default function useGameStartingManagement() {
 
       if (data) {
         switch (data.event) {
-          case "game_starting_countdown": {
-            setCount(data.payload.count);
+          case "get_game_state":
+          case "game_starting": {
+            const deadline =
+              data.event === "get_game_state"
+                ? data.payload.state?.countdownEndsAt
+                : data.payload.startsAt;
+
+            if (deadline) {
+              // the server's deadline, translated to the local clock
+              setStartsAt(deadline - getClockOffset());
+            }
+            break;
           }
         }
       }
@@ -40,7 +65,21 @@ export default function useGameStartingManagement() {
     return () => {
       socket.removeEventListener("message", handleMessage);
     };
-  }, [socket]);
+  }, [socket, sendMessage, getClockOffset]);
+
+  useEffect(() => {
+    if (startsAt === null) {
+      return;
+    }
+
+    const tick = () =>
+      setCount(Math.max(0, Math.ceil((startsAt - Date.now()) / 1000)));
+
+    tick();
+    const interval = setInterval(tick, 250);
+
+    return () => clearInterval(interval);
+  }, [startsAt]);
 
   return { count };
 }
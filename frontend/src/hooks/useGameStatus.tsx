@@ -1,23 +1,28 @@
 import { useEffect, useState } from "react";
-import { GameStatus } from "../types";
+import { GameState, GameStatus } from "../types";
 import { useSocketMessaging } from "./useSocketMessaging";
+import { useWebSocket } from "./useWebSocket";
 import { toast } from "sonner";
 import { useNavigate } from "react-router";
 
 type WebSocketResponse =
   | {
-      event: "check_game_id";
+      event: "get_game_state";
       payload: {
-        isGameInvalid: boolean;
+        state: GameState | null;
       };
     }
   | {
       event: "game_starting";
     }
+  | {
+      event: "countdown_cancelled";
+    }
   | {
       event: "game_start";
       payload: {
         message: string;
+        startedAt: number;
       };
     }
   | {
@@ -33,21 +38,33 @@ type WebSocketResponse =
       event: "finish_game";
     };
 
-/** Custom hook to fetch the status of the game. redirects to the landing page if the gameId is invalid */
+// the server forgets a spectator once its connection closes, so the tab remembers the game it watches for a refresh
+const SPECTATED_GAME_KEY = "spectatedGameId";
+
+/**
+ * Custom hook to fetch the status of the game and whether the player only spectates it. redirects to the landing page if the gameId is invalid.
+ * A refreshed page waits for the connection, the server then attaches it to the game again
+ */
 export default function useGameStatus(gameId: string | undefined) {
   const { socket, sendMessage } = useSocketMessaging();
+  const { 1: connectionStatus } = useWebSocket();
   const [gameStatus, setGameStatus] = useState<GameStatus | null>(null);
+  const [isSpectator, setIsSpectator] = useState(false);
 
   const navigator = useNavigate();
 
   useEffect(() => {
     if (!socket) {
-      // toast.error("The server is down!");
-      navigator("/");
+      if (connectionStatus === "failed") {
+        navigator("/");
+      }
       return;
     }
 
-    sendMessage("check_game_id", { gameId });
+    sendMessage("get_game_state", {
+      gameId,
+      spectate: sessionStorage.getItem(SPECTATED_GAME_KEY) === gameId,
+    });
 
     const handleMessage = (event: MessageEvent) => {
       let data: WebSocketResponse | null = null;
@@ -60,14 +77,22 @@ export default function useGameStatus(gameId: string | undefined) {
 
       if (data) {
         switch (data.event) {
-          case "check_game_id": {
-            const isGameInvalid = data.payload.isGameInvalid;
+          case "get_game_state": {
+            const { state } = data.payload;
 
-            if (isGameInvalid) {
+            if (!state) {
               toast.error("Invalid game");
               navigator("/");
             } else {
-              setGameStatus(GameStatus.WAITING);
+              // a spectator or a refreshed page may arrive at any stage of the game
+              setGameStatus(state.status);
+              setIsSpectator(state.isSpectator);
+
+              if (state.isSpectator) {
+                sessionStorage.setItem(SPECTATED_GAME_KEY, state.gameId);
+              } else {
+                sessionStorage.removeItem(SPECTATED_GAME_KEY);
+              }
             }
 
             break;
@@ -76,6 +101,12 @@ export default function useGameStatus(gameId: string | undefined) {
             setGameStatus(GameStatus.STARTING);
             break;
           }
+          case "countdown_cancelled": {
+            // the host left or too few players remain
+            setGameStatus(GameStatus.WAITING);
+            toast.info("The countdown was cancelled");
+            break;
+          }
           case "game_start": {
             setGameStatus(GameStatus.IN_PROGRESS);
             break;
@@ -105,7 +136,7 @@ export default function useGameStatus(gameId: string | undefined) {
     };
 
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [socket, sendMessage, gameId]);
+  }, [socket, sendMessage, gameId, connectionStatus]);
 
-  return { gameStatus };
+  return { gameStatus, isSpectator };
 }
@@ -1,13 +1,14 @@
 import { useEffect, useState } from "react";
 import { useSocketMessaging } from "./useSocketMessaging";
-import { Lobby } from "../types";
+import { GameSettings, GameState, Lobby } from "../types";
 import { useNavigate } from "react-router";
+import { toast } from "sonner";
 
 type WebSocketResponse =
   | {
-      event: "get_lobby";
+      event: "get_game_state";
       payload: {
-        lobby: Lobby;
+        state: GameState | null;
       };
     }
   | {
@@ -35,6 +36,48 @@ type WebSocketResponse =
         playerId: string;
       };
     }
+  | {
+      event: "settings_updated";
+      payload: {
+        settings: GameSettings;
+      };
+    }
+  | {
+      event: "custom_text_updated";
+      payload: {
+        customText: string;
+      };
+    }
+  | {
+      event: "spectators_updated";
+      payload: {
+        spectators: Lobby["spectators"];
+      };
+    }
+  | {
+      event: "player_kicked";
+      payload: {
+        playerId: string;
+      };
+    }
+  | {
+      event: "host_changed";
+      payload: {
+        hostId: string;
+      };
+    }
+  | {
+      event: "lobby_locked";
+      payload: {
+        isLocked: boolean;
+      };
+    }
+  | {
+      event: "ready_updated";
+      payload: {
+        readyIds: string[];
+      };
+    }
   | {
       event: "leave_game";
     };
@@ -42,8 +85,10 @@ type WebSocketResponse =
 /**
  * Manages the game lobby
  * - retrieves the lobby of the game
- * - updates the lobby when a new user joins or an existing user changes its name
+ * - updates the lobby when a new user joins, an existing user changes its name or the host changes the settings
  * - sends start/leave messages to the backend when required
+ * - lets the host kick players, hand over the host role and lock the lobby
+ * - lets the players mark themselves ready
  */
 export default function useLobbyManagement() {
   const [lobby, setLobby] = useState<Lobby | null>(null);
@@ -57,7 +102,7 @@ export default function useLobbyManagement() {
     }
 
     // fetch the lobby of the game
-    sendMessage("get_lobby");
+    sendMessage("get_game_state");
 
     const handleMessage = (event: MessageEvent) => {
       let data: WebSocketResponse | null = null;
@@ -70,8 +115,10 @@ export default function useLobbyManagement() {
 
       if (data) {
         switch (data.event) {
-          case "get_lobby": {
-            setLobby(data.payload.lobby);
+          case "get_game_state": {
+            if (data.payload.state) {
+              setLobby(data.payload.state.lobby);
+            }
 
             break;
           }
@@ -109,7 +156,7 @@ export default function useLobbyManagement() {
               );
 
               return {
-                hostId: prevLobby.hostId,
+                ...prevLobby,
                 players: newPlayers,
               };
             });
@@ -122,6 +169,7 @@ export default function useLobbyManagement() {
               if (!prevLobby) return prevLobby;
 
               return {
+                ...prevLobby,
                 hostId: data.payload.updatedHostId,
                 players: prevLobby.players.filter(
                   (player) => player.playerId !== data.payload.playerId,
@@ -132,6 +180,108 @@ export default function useLobbyManagement() {
             break;
           }
 
+          case "settings_updated": {
+            setLobby((prevLobby) => {
+              if (!prevLobby) return prevLobby;
+
+              return {
+                ...prevLobby,
+                settings: data.payload.settings,
+              };
+            });
+
+            break;
+          }
+
+          case "custom_text_updated": {
+            setLobby((prevLobby) => {
+              if (!prevLobby) return prevLobby;
+
+              return {
+                ...prevLobby,
+                customText: data.payload.customText,
+              };
+            });
+
+            break;
+          }
+
+          case "spectators_updated": {
+            setLobby((prevLobby) => {
+              if (!prevLobby) return prevLobby;
+
+              return {
+                ...prevLobby,
+                spectators: data.payload.spectators,
+              };
+            });
+
+            break;
+          }
+
+          case "player_kicked": {
+            if (data.payload.playerId === localStorage.getItem("playerId")) {
+              toast.error("You were removed from the game by the host");
+              navigator("/");
+              break;
+            }
+
+            setLobby((prevLobby) => {
+              if (!prevLobby) return prevLobby;
+
+              return {
+                ...prevLobby,
+                players: prevLobby.players.filter(
+                  (player) => player.playerId !== data.payload.playerId,
+                ),
+                spectators: prevLobby.spectators.filter(
+                  (spectator) => spectator.playerId !== data.payload.playerId,
+                ),
+              };
+            });
+
+            break;
+          }
+
+          case "host_changed": {
+            setLobby((prevLobby) => {
+              if (!prevLobby) return prevLobby;
+
+              return {
+                ...prevLobby,
+                hostId: data.payload.hostId,
+              };
+            });
+
+            break;
+          }
+
+          case "lobby_locked": {
+            setLobby((prevLobby) => {
+              if (!prevLobby) return prevLobby;
+
+              return {
+                ...prevLobby,
+                isLocked: data.payload.isLocked,
+              };
+            });
+
+            break;
+          }
+
+          case "ready_updated": {
+            setLobby((prevLobby) => {
+              if (!prevLobby) return prevLobby;
+
+              return {
+                ...prevLobby,
+                readyIds: data.payload.readyIds,
+              };
+            });
+
+            break;
+          }
+
           case "leave_game": {
             // successfully exited the game. redirect to the landing page
             navigator("/");
@@ -176,5 +326,44 @@ export default function useLobbyManagement() {
     });
   };
 
-  return { startGame, leaveGame, changeUsername, lobby };
+  const updateSettings = (settings: Partial<GameSettings>) => {
+    sendMessage("update_settings", {
+      settings,
+    });
+  };
+
+  const setCustomText = (text: string) => {
+    sendMessage("set_custom_text", {
+      text,
+    });
+  };
+
+  const kickPlayer = (playerId: string) => {
+    sendMessage("kick_player", { playerId });
+  };
+
+  const transferHost = (playerId: string) => {
+    sendMessage("transfer_host", { playerId });
+  };
+
+  const lockLobby = (isLocked: boolean) => {
+    sendMessage("lock_lobby", { isLocked });
+  };
+
+  const setReady = (ready: boolean) => {
+    sendMessage("set_ready", { ready });
+  };
+
+  return {
+    startGame,
+    leaveGame,
+    changeUsername,
+    updateSettings,
+    setCustomText,
+    kickPlayer,
+    transferHost,
+    lockLobby,
+    setReady,
+    lobby,
+  };
 }
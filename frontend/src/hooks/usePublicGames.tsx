@@ -0,0 +1,85 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useSocketMessaging } from "./useSocketMessaging";
+import { PublicGame } from "../types";
+
+type WebSocketResponse =
+  | {
+      event: "list_public_games";
+      payload: {
+        games: PublicGame[];
+        page: number;
+        totalPages: number;
+      };
+    }
+  | {
+      event: "public_games_updated";
+    };
+
+/**
+ * Lists the public games waiting for players, a page at a time.
+ * The current page is fetched again whenever the server reports a change to the public games.
+ */
+export default function usePublicGames() {
+  const { socket, sendMessage } = useSocketMessaging();
+  const [games, setGames] = useState<PublicGame[]>([]);
+  const [page, setPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const pageRef = useRef(1);
+
+  const fetchPage = useCallback(
+    (nextPage: number) => {
+      pageRef.current = nextPage;
+      sendMessage("list_public_games", { page: nextPage });
+    },
+    [sendMessage],
+  );
+
+  useEffect(() => {
+    if (!socket) {
+      return;
+    }
+
+    fetchPage(pageRef.current);
+
+    const handleMessage = (event: MessageEvent) => {
+      let data: WebSocketResponse | null = null;
+
+      try {
+        data = JSON.parse(event.data);
+      } catch (err) {
+        console.error("couldn't parse the backend response", err);
+      }
+
+      if (data) {
+        switch (data.event) {
+          case "list_public_games": {
+            setGames(data.payload.games);
+            setPage(data.payload.page);
+            setTotalPages(data.payload.totalPages);
+            break;
+          }
+          case "public_games_updated": {
+            fetchPage(pageRef.current);
+            break;
+          }
+        }
+      }
+    };
+
+    socket.addEventListener("message", handleMessage);
+
+    return () => {
+      socket.removeEventListener("message", handleMessage);
+    };
+  }, [socket, fetchPage]);
+
+  const nextPage = () => {
+    if (page < totalPages) fetchPage(page + 1);
+  };
+
+  const previousPage = () => {
+    if (page > 1) fetchPage(page - 1);
+  };
+
+  return { games, page, totalPages, nextPage, previousPage };
+}
@@ -2,10 +2,10 @@ import { createContext, useContext } from "react";
 import { ConnectionStatus } from "../types";
 
 export const WebSocketContext = createContext<
-  [WebSocket | null, ConnectionStatus, string | null]
->([null, "connecting", null]);
+  [WebSocket | null, ConnectionStatus, string | null, () => number]
+>([null, "connecting", null, () => 0]);
 
-/** Returns the websocket instance and the status of the connection */
+/** Returns the websocket instance, the status of the connection and a getter for the estimated offset of the server clock (in ms) */
 export function useWebSocket() {
   return useContext(WebSocketContext);
 }
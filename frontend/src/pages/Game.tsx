@@ -2,25 +2,49 @@ import {
   ArrowLeft,
   ChevronDown,
   ChevronUp,
+  CircleCheck,
   Clock,
   Copy,
   Crown,
+  Eye,
+  Flag,
+  Globe,
   Info,
   KeyRound,
+  Lock,
+  LockOpen,
+  MessageSquare,
   RotateCcw,
+  Send,
+  ShieldAlert,
   Target,
+  Timer,
+  TrendingUp,
+  Type,
   User,
+  UserX,
 } from "lucide-react";
 import { useParams } from "react-router";
 import { toast } from "sonner";
 import Logo from "../components/Logo";
 import useLobbyManagement from "../hooks/useLobbyManagement";
-import { GameStatus } from "../types";
+import {
+  CHAT_MESSAGE_MAX_LENGTH,
+  CUSTOM_TEXT_LIMITS,
+  FlagReason,
+  GameMode,
+  GameSettings,
+  GameStatus,
+  KeystrokeEntry,
+  PassageSource,
+  SETTINGS_LIMITS,
+} from "../types";
 import { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import useGameInProgressManagement from "../hooks/useGameInProgressManagement";
 import useGameStartingManagement from "../hooks/useGameStartingManagement";
 import useGameCompletedManagement from "../hooks/useGameCompletedManagement";
 import useGameStatus from "../hooks/useGameStatus";
+import useChat from "../hooks/useChat";
 
 export default function Game() {
   return (
@@ -40,15 +64,15 @@ function RenderGameByStatus() {
   const gameId = params.gameId;
 
   // validate the gameId and fetch the status and count in case the game is starting
-  const { gameStatus } = useGameStatus(gameId);
+  const { gameStatus, isSpectator } = useGameStatus(gameId);
 
   switch (gameStatus) {
     case GameStatus.WAITING:
-      return <GameWaiting gameId={gameId as string} />;
+      return <GameWaiting isSpectator={isSpectator} />;
     case GameStatus.STARTING:
       return <GameStarting />;
     case GameStatus.IN_PROGRESS:
-      return <GameInProgress />;
+      return <GameInProgress isSpectator={isSpectator} />;
     case GameStatus.COMPLETED:
       return <GameCompleted />;
     default:
@@ -56,15 +80,40 @@ function RenderGameByStatus() {
   }
 }
 
+/** Display labels for the passage sources */
+const passageSourceLabels: Record<PassageSource, string> = {
+  [PassageSource.WORDS]: "Random Words",
+  [PassageSource.QUOTES]: "Quotes",
+  [PassageSource.NUMBERS]: "Numbers & Punctuation",
+  [PassageSource.CODE]: "Code",
+  [PassageSource.CUSTOM]: "Custom",
+};
+
 /** Rendered when the state of the game is "waiting" */
-function GameWaiting({ gameId }: { gameId: string }) {
-  const { startGame, leaveGame, changeUsername, lobby } = useLobbyManagement();
+function GameWaiting({ isSpectator }: { isSpectator: boolean }) {
+  const {
+    startGame,
+    leaveGame,
+    changeUsername,
+    updateSettings,
+    setCustomText,
+    kickPlayer,
+    transferHost,
+    lockLobby,
+    setReady,
+    lobby,
+  } = useLobbyManagement();
 
   const handleCopyInviteCode = async () => {
-    const copyPromise = navigator.clipboard.writeText(gameId);
+    if (!lobby) return;
+
+    // share a link that joins straight away instead of the bare code
+    const copyPromise = navigator.clipboard.writeText(
+      `${window.location.origin}/join/${lobby.inviteCode}`,
+    );
     toast.promise(copyPromise, {
       loading: "Copying...",
-      success: "Copied to the clipboard",
+      success: "Invite link copied to the clipboard",
       error: "Something went wrong",
     });
   };
@@ -96,13 +145,23 @@ function GameWaiting({ gameId }: { gameId: string }) {
 
   const currentUserId = localStorage.getItem("playerId");
   const isHost = currentUserId === lobby?.hostId;
+  const isReady = !!currentUserId && !!lobby?.readyIds.includes(currentUserId);
+
+  // the host starting the game counts as being ready
+  const unreadyCount =
+    lobby?.players.filter(
+      ({ playerId }) =>
+        playerId !== lobby.hostId && !lobby.readyIds.includes(playerId),
+    ).length ?? 0;
 
   return (
     <section className="mx-auto mt-[15vh] flex max-w-xl flex-col items-center justify-center gap-5 px-4">
       <header className="flex items-center gap-2">
         <Info className="size-6 text-blue-600" />
         <h1 className="font-inter font-bold text-blue-600 sm:text-2xl">
-          Waiting for the host to start...
+          {isSpectator
+            ? "Watching, the race starts soon..."
+            : "Waiting for the host to start..."}
         </h1>
       </header>
       <div className="w-full">
@@ -112,22 +171,64 @@ function GameWaiting({ gameId }: { gameId: string }) {
           onClick={handleCopyInviteCode}
         >
           <input
-            className="w-full cursor-pointer font-mono text-sm text-zinc-700 focus:outline-none"
-            value={gameId}
+            className="w-full cursor-pointer font-mono text-lg tracking-[0.3em] text-zinc-700 focus:outline-none"
+            value={lobby?.inviteCode ?? ""}
             readOnly
           />
           <Copy className="size-5 cursor-pointer text-zinc-300 transition-colors duration-300 hover:text-zinc-600" />
         </div>
       </div>
+      {lobby && (
+        <LobbySettings
+          settings={lobby.settings}
+          customText={lobby.customText}
+          isHost={isHost}
+          playerCount={lobby.players.length}
+          onUpdate={updateSettings}
+          onSetCustomText={setCustomText}
+        />
+      )}
       <section className="flex w-full flex-col gap-1">
-        <header className="px-2 text-lg font-medium">
+        <header className="flex items-center justify-between px-2 text-lg font-medium">
           <h1>Current Lineup</h1>
+          {lobby &&
+            (isHost ? (
+              <button
+                onClick={() => lockLobby(!lobby.isLocked)}
+                className="flex cursor-pointer items-center gap-1 rounded-full px-2 py-1 text-xs text-zinc-600 outline outline-zinc-200 transition-colors duration-300 hover:text-zinc-900"
+                title={
+                  lobby.isLocked
+                    ? "Let new players join again"
+                    : "Stop new players from joining"
+                }
+              >
+                {lobby.isLocked ? (
+                  <Lock className="size-3" />
+                ) : (
+                  <LockOpen className="size-3" />
+                )}
+                {lobby.isLocked ? "Locked" : "Open"}
+              </button>
+            ) : (
+              lobby.isLocked && (
+                <span className="flex items-center gap-1 text-xs text-zinc-500">
+                  <Lock className="size-3" /> Locked
+                </span>
+              )
+            ))}
         </header>
         <div className="flex flex-col space-y-1 divide-y divide-zinc-100 rounded-xl p-4 outline outline-zinc-100">
           {lobby &&
             lobby.players.map((item) => (
               <div className="flex items-center gap-1" key={item.playerId}>
-                <User className="size-5" />
+                {lobby.readyIds.includes(item.playerId) ? (
+                  <CircleCheck
+                    className="size-5 text-green-600"
+                    aria-label="Ready"
+                  />
+                ) : (
+                  <User className="size-5" aria-label="Not ready" />
+                )}
                 <input
                   key={`player-${item.playerId}-${item.playerName}`}
                   defaultValue={item.playerName}
@@ -142,18 +243,72 @@ function GameWaiting({ gameId }: { gameId: string }) {
                 {lobby.hostId === item.playerId && (
                   <span className="text-xs">(host)</span>
                 )}
+                {isHost && lobby.hostId !== item.playerId && (
+                  <div className="flex items-center gap-1 text-zinc-400">
+                    <button
+                      onClick={() => transferHost(item.playerId)}
+                      className="cursor-pointer transition-colors duration-300 hover:text-yellow-500"
+                      title="Make host"
+                    >
+                      <Crown className="size-4" />
+                    </button>
+                    <button
+                      onClick={() => kickPlayer(item.playerId)}
+                      className="cursor-pointer transition-colors duration-300 hover:text-red-500"
+                      title="Kick"
+                    >
+                      <UserX className="size-4" />
+                    </button>
+                  </div>
+                )}
               </div>
             ))}
         </div>
+        {lobby && lobby.spectators.length > 0 && (
+          <div className="flex flex-wrap items-center gap-2 px-2 text-sm text-zinc-500">
+            <Eye className="size-4" />
+            <span>Spectators:</span>
+            {lobby.spectators.map((spectator) => (
+              <span
+                key={spectator.playerId}
+                className="font-poppins flex items-center gap-1"
+              >
+                {spectator.playerName}
+                {isHost && (
+                  <button
+                    onClick={() => kickPlayer(spectator.playerId)}
+                    className="cursor-pointer text-zinc-400 transition-colors duration-300 hover:text-red-500"
+                    title="Kick"
+                  >
+                    <UserX className="size-3" />
+                  </button>
+                )}
+              </span>
+            ))}
+          </div>
+        )}
         <div className="mx-auto flex w-full gap-2">
           {isHost && (
             <button
               onClick={handleStartGame}
-              className="font-inter w-full cursor-pointer rounded-md bg-blue-600 px-4 py-2 text-white"
+              className={`font-inter w-full cursor-pointer rounded-md bg-blue-600 px-4 py-2 text-white ${unreadyCount > 0 ? "opacity-60" : ""}`}
+              title={
+                unreadyCount > 0
+                  ? `Waiting for ${unreadyCount} ${unreadyCount === 1 ? "player" : "players"} to get ready`
+                  : undefined
+              }
             >
               Start Game
             </button>
           )}
+          {!isSpectator && (
+            <button
+              onClick={() => setReady(!isReady)}
+              className={`font-inter w-full cursor-pointer rounded-md px-4 py-2 outline outline-zinc-200 ${isReady ? "bg-green-600 text-white" : "text-zinc-700"}`}
+            >
+              {isReady ? "Ready!" : "Ready Up"}
+            </button>
+          )}
           <button
             onClick={handleLeaveGame}
             className="font-inter w-full cursor-pointer rounded-md bg-red-500 px-4 py-2 text-white"
@@ -162,6 +317,304 @@ function GameWaiting({ gameId }: { gameId: string }) {
           </button>
         </div>
       </section>
+      <ChatPanel />
+    </section>
+  );
+}
+
+/** The chat of the game, shown in the lobby and on the results */
+function ChatPanel() {
+  const { messages, sendChat } = useChat();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const currentUserId = localStorage.getItem("playerId");
+
+  useEffect(() => {
+    // keep the latest message in view
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages]);
+
+  const handleSend = () => {
+    const text = inputRef.current?.value.trim();
+
+    if (!text || !inputRef.current) return;
+
+    sendChat(text);
+    inputRef.current.value = "";
+  };
+
+  return (
+    <section className="flex w-full flex-col gap-1">
+      <header className="flex items-center gap-1 px-2 text-lg font-medium">
+        <MessageSquare className="size-5" />
+        <h1>Chat</h1>
+      </header>
+      <div className="flex flex-col rounded-xl outline outline-zinc-100">
+        <div
+          ref={listRef}
+          className="flex h-40 flex-col gap-1 overflow-y-auto p-3 text-sm"
+        >
+          {messages.length === 0 ? (
+            <p className="text-xs text-zinc-400 italic">
+              No messages yet. Say hi!
+            </p>
+          ) : (
+            messages.map((message) => (
+              <p key={message.id} className="break-words">
+                <span
+                  className={`font-poppins font-medium ${message.playerId === currentUserId ? "text-blue-600" : "text-zinc-800"}`}
+                >
+                  {message.playerName}:
+                </span>{" "}
+                <span className="text-zinc-700">{message.text}</span>
+              </p>
+            ))
+          )}
+        </div>
+        <div className="flex items-center gap-2 border-t border-zinc-100 px-3 py-2">
+          <input
+            ref={inputRef}
+            maxLength={CHAT_MESSAGE_MAX_LENGTH}
+            placeholder="Send a message..."
+            className="w-full text-sm text-zinc-700 focus:outline-none"
+            onKeyDown={(e) => {
+              if (e.key === "Enter") handleSend();
+            }}
+          />
+          <button
+            onClick={handleSend}
+            className="cursor-pointer text-zinc-400 transition-colors duration-300 hover:text-blue-600"
+          >
+            <Send className="size-4" />
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+/** Display labels for the game modes */
+const gameModeLabels: Record<GameMode, string> = {
+  [GameMode.FINISH]: "Finish the Text",
+  [GameMode.TIMED]: "Timed",
+};
+
+const flagReasonLabels: Record<FlagReason, string> = {
+  [FlagReason.PASTE]: "Unranked: text was pasted",
+  [FlagReason.BURST]: "Unranked: keystrokes arrived too fast",
+  [FlagReason.SPEED]: "Unranked: typing speed above the human limit",
+};
+
+type NumericSetting =
+  | "wordCount"
+  | "countdown"
+  | "maxPlayers"
+  | "timeLimit"
+  | "maxDuration";
+
+/** Renders the lobby settings. The host can edit them, everyone else sees them read-only */
+function LobbySettings({
+  settings,
+  customText,
+  isHost,
+  playerCount,
+  onUpdate,
+  onSetCustomText,
+}: {
+  settings: GameSettings;
+  customText: string | null;
+  isHost: boolean;
+  playerCount: number;
+  onUpdate: (settings: Partial<GameSettings>) => void;
+  onSetCustomText: (text: string) => void;
+}) {
+  const [isEditingCustomText, setIsEditingCustomText] = useState(false);
+  const customTextRef = useRef<HTMLTextAreaElement>(null);
+
+  const isTimed = settings.mode === GameMode.TIMED;
+
+  // a timed race swaps the word count and the race limit for the time limit
+  const numericSettings: { key: NumericSetting; label: string }[] = [
+    ...(isTimed
+      ? [{ key: "timeLimit" as const, label: "Time Limit (s)" }]
+      : [
+          { key: "wordCount" as const, label: "Words" },
+          { key: "maxDuration" as const, label: "Race Limit (s)" },
+        ]),
+    { key: "countdown", label: "Countdown (s)" },
+    { key: "maxPlayers", label: "Room Size" },
+  ];
+
+  const handleNumericChange = (
+    event: React.FocusEvent<HTMLInputElement>,
+    key: NumericSetting,
+  ) => {
+    const value = Number(event.target.value);
+    const { max } = SETTINGS_LIMITS[key];
+    // the room cannot shrink below the current lineup
+    const min =
+      key === "maxPlayers"
+        ? Math.max(SETTINGS_LIMITS[key].min, playerCount)
+        : SETTINGS_LIMITS[key].min;
+
+    if (!Number.isInteger(value) || value < min || value > max) {
+      event.target.value = String(settings[key]);
+      toast.error(`Pick a whole number between ${min} and ${max}`);
+      return;
+    }
+
+    if (value !== settings[key]) {
+      onUpdate({ [key]: value });
+    }
+  };
+
+  const handlePassageSourceChange = (source: PassageSource) => {
+    setIsEditingCustomText(source === PassageSource.CUSTOM);
+
+    // the custom source needs a text first, which is sent from the editor
+    if (source !== PassageSource.CUSTOM || customText) {
+      onUpdate({ passageSource: source });
+    }
+  };
+
+  const handleSaveCustomText = () => {
+    const text = customTextRef.current?.value.trim() || "";
+    const { min, max } = CUSTOM_TEXT_LIMITS;
+
+    // the backend normalizes the text, this only catches the obvious mistakes early
+    if (text.length < min || text.length > max) {
+      toast.error(`The text must be between ${min} and ${max} characters long`);
+      return;
+    }
+
+    onSetCustomText(text);
+    setIsEditingCustomText(false);
+  };
+
+  return (
+    <section className="flex w-full flex-col gap-1">
+      <header className="px-2 text-lg font-medium">
+        <h1>Settings</h1>
+      </header>
+      <div className="flex flex-col gap-3 rounded-xl p-4 outline outline-zinc-100">
+        <div className="flex w-full gap-2">
+          {Object.values(GameMode).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => onUpdate({ mode })}
+              disabled={!isHost}
+              className={`font-inter w-full rounded-md px-3 py-2 text-sm outline outline-zinc-100 ${settings.mode === mode ? "bg-blue-600 text-white" : "text-zinc-700"} ${isHost ? "cursor-pointer" : "cursor-default"}`}
+            >
+              {gameModeLabels[mode]}
+            </button>
+          ))}
+        </div>
+        <div className="grid w-full grid-cols-3 gap-2 sm:grid-cols-5">
+          {Object.values(PassageSource).map((source) => (
+            <button
+              key={source}
+              onClick={() => handlePassageSourceChange(source)}
+              disabled={!isHost}
+              className={`font-inter w-full rounded-md px-3 py-2 text-sm outline outline-zinc-100 ${settings.passageSource === source ? "bg-blue-600 text-white" : "text-zinc-700"} ${isHost ? "cursor-pointer" : "cursor-default"}`}
+            >
+              {passageSourceLabels[source]}
+            </button>
+          ))}
+        </div>
+        {isHost && isEditingCustomText ? (
+          <div className="flex flex-col gap-2">
+            <textarea
+              ref={customTextRef}
+              defaultValue={customText ?? ""}
+              placeholder="Paste the text you want to race on..."
+              rows={4}
+              className="font-poppins resize-none rounded-md p-2 text-sm text-zinc-800 outline outline-zinc-100 focus:outline-blue-600/40"
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={() => setIsEditingCustomText(false)}
+                className="font-inter w-full cursor-pointer rounded-md px-3 py-2 text-sm text-zinc-700 outline outline-zinc-100"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveCustomText}
+                className="font-inter w-full cursor-pointer rounded-md bg-blue-600 px-3 py-2 text-sm text-white"
+              >
+                Use this text
+              </button>
+            </div>
+          </div>
+        ) : (
+          settings.passageSource === PassageSource.CUSTOM &&
+          customText && (
+            <p
+              onClick={() => isHost && setIsEditingCustomText(true)}
+              className={`line-clamp-3 rounded-md p-2 font-mono text-sm text-zinc-600 outline outline-zinc-100 ${isHost ? "cursor-pointer" : "cursor-default"}`}
+            >
+              {customText}
+            </p>
+          )
+        )}
+        <div className="flex w-full gap-2">
+          {[false, true].map((isPublic) => (
+            <button
+              key={String(isPublic)}
+              onClick={() => onUpdate({ isPublic })}
+              disabled={!isHost}
+              className={`font-inter flex w-full items-center justify-center gap-1 rounded-md px-3 py-2 text-sm outline outline-zinc-100 ${settings.isPublic === isPublic ? "bg-blue-600 text-white" : "text-zinc-700"} ${isHost ? "cursor-pointer" : "cursor-default"}`}
+            >
+              {isPublic ? (
+                <Globe className="size-4" />
+              ) : (
+                <Lock className="size-4" />
+              )}
+              {isPublic ? "Public" : "Invite Only"}
+            </button>
+          ))}
+        </div>
+        <div className="flex w-full gap-2">
+          {[false, true].map((autoStart) => (
+            <button
+              key={String(autoStart)}
+              onClick={() => onUpdate({ autoStart })}
+              disabled={!isHost}
+              className={`font-inter flex w-full items-center justify-center gap-1 rounded-md px-3 py-2 text-sm outline outline-zinc-100 ${settings.autoStart === autoStart ? "bg-blue-600 text-white" : "text-zinc-700"} ${isHost ? "cursor-pointer" : "cursor-default"}`}
+            >
+              {autoStart ? (
+                <CircleCheck className="size-4" />
+              ) : (
+                <Crown className="size-4" />
+              )}
+              {autoStart ? "Start When All Ready" : "Host Starts"}
+            </button>
+          ))}
+        </div>
+        <div className="grid grid-cols-3 gap-2">
+          {numericSettings.map(({ key, label }) => (
+            <label key={key} className="flex flex-col gap-1 text-sm">
+              <span className="px-1 text-zinc-500">{label}</span>
+              <input
+                key={`${key}-${settings[key]}`}
+                type="number"
+                defaultValue={settings[key]}
+                readOnly={!isHost}
+                disabled={
+                  key === "wordCount" &&
+                  (settings.passageSource === PassageSource.QUOTES ||
+                    settings.passageSource === PassageSource.CODE ||
+                    settings.passageSource === PassageSource.CUSTOM)
+                }
+                onBlur={(e) =>
+                  isHost ? handleNumericChange(e, key) : undefined
+                }
+                className={`font-poppins rounded-md p-1 px-2 text-zinc-800 outline outline-zinc-100 focus:outline-blue-600/40 disabled:text-zinc-400 ${isHost ? "" : "cursor-default"}`}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
     </section>
   );
 }
@@ -182,33 +635,89 @@ function GameStarting() {
   );
 }
 
-function GameInProgress() {
-  const { gameText, sendUpdatedPosition, players, gameStartTime, finishGame } =
-    useGameInProgressManagement();
+/** Rendered when the state of the game is "in progress". A spectator only sees the passage and the progress of everyone */
+function GameInProgress({ isSpectator }: { isSpectator: boolean }) {
+  const {
+    gameText,
+    passage,
+    settings,
+    isTimeUp,
+    sendUpdatedPosition,
+    players,
+    spectatorCount,
+    gameStartTime,
+    resume,
+    finishGame,
+    reportInputEvent,
+  } = useGameInProgressManagement();
 
   const [userInput, setUserInput] = useState("");
   const userInputRef = useRef<HTMLTextAreaElement>(null);
   const textAreaRef = useRef<HTMLTextAreaElement>(null);
   const elapsedTimerIntervalIdRef = useRef<NodeJS.Timeout>(null);
   const elapsedTimeRef = useRef(0);
+  const hasFinishedRef = useRef(false);
+  const keystrokeLogRef = useRef<KeystrokeEntry[]>([]);
+  const sentKeystrokesRef = useRef(0); // the part of the log the server already has
+  const [remainingTime, setRemainingTime] = useState<number | null>(null);
   const [isTextAreaFocused, setIsTextAreaFocused] = useState(true);
   const currentPlayerId = localStorage.getItem("playerId");
 
-  // calculate the accuracy
-  const calculateAccuracy = useCallback((input: string, target: string) => {
-    if (input.length === 0) return 100;
+  const isTimed = settings?.mode === GameMode.TIMED;
+
+  // the leading indentation of every line is filled in automatically after a newline, so it is never typed.
+  // skippedBefore[i] holds the number of such characters before index i
+  const { autoSkipped, skippedBefore } = useMemo(() => {
+    const autoSkipped = new Set<number>();
+    const skippedBefore = [0];
+
+    for (let i = 0; i < gameText.length; i++) {
+      if (
+        (gameText[i] === " " || gameText[i] === "\t") &&
+        i > 0 &&
+        (gameText[i - 1] === "\n" || autoSkipped.has(i - 1))
+      ) {
+        autoSkipped.add(i);
+      }
+
+      skippedBefore.push(skippedBefore[i] + (autoSkipped.has(i) ? 1 : 0));
+    }
 
-    let correctChars = 0;
-    const inputLength = Math.min(input.length, target.length);
+    return { autoSkipped, skippedBefore };
+  }, [gameText]);
 
-    for (let i = 0; i < inputLength; i++) {
-      if (input[i] === target[i]) {
-        correctChars++;
+  // the number of characters actually typed to reach a position. a newline counts as a single character
+  const countTypedChars = useCallback(
+    (position: number) =>
+      position - skippedBefore[Math.min(position, skippedBefore.length - 1)],
+    [skippedBefore],
+  );
+
+  // record the change from the previous input as [ms since the start, characters deleted, characters inserted]
+  const recordKeystroke = useCallback(
+    (previousInput: string, nextInput: string) => {
+      let commonPrefix = 0;
+
+      while (
+        commonPrefix < previousInput.length &&
+        commonPrefix < nextInput.length &&
+        previousInput[commonPrefix] === nextInput[commonPrefix]
+      ) {
+        commonPrefix++;
       }
-    }
 
-    return Math.round((correctChars / inputLength) * 100);
-  }, []);
+      const timestamp = gameStartTime
+        ? Math.max(0, Math.round(Date.now() - gameStartTime))
+        : 0;
+
+      keystrokeLogRef.current.push([
+        timestamp,
+        previousInput.length - commonPrefix,
+        nextInput.slice(commonPrefix),
+      ]);
+    },
+    [gameStartTime],
+  );
 
   const calculateWPM = useCallback(
     (position: number, elapsedTimeSeconds: number) => {
@@ -228,6 +737,12 @@ function GameInProgress() {
       if (gameStartTime) {
         const newTime = (Date.now() - gameStartTime) / 1000;
         elapsedTimeRef.current = newTime;
+
+        if (settings?.mode === GameMode.TIMED) {
+          setRemainingTime(
+            Math.max(0, Math.ceil(settings.timeLimit - newTime)),
+          );
+        }
       }
     }, 100);
 
@@ -237,32 +752,68 @@ function GameInProgress() {
       }
       elapsedTimerIntervalIdRef.current = null;
     };
-  }, [gameStartTime]);
+  }, [gameStartTime, settings]);
+
+  // submit the result once, either when the text is done or when the clock runs out
+  const submitResult = useCallback(() => {
+    if (hasFinishedRef.current || isSpectator) return;
+    hasFinishedRef.current = true;
+
+    // the server replays the log to compute the final metrics
+    finishGame(keystrokeLogRef.current);
+  }, [finishGame, isSpectator]);
 
   useEffect(() => {
+    if (isSpectator) return;
+
     const intervalId = setInterval(() => {
       const input = userInputRef.current?.value || "";
       const currentPosition = input.length;
+      const log = keystrokeLogRef.current;
 
-      sendUpdatedPosition(currentPosition);
+      sendUpdatedPosition(
+        currentPosition,
+        log.slice(sentKeystrokesRef.current),
+        sentKeystrokesRef.current,
+      );
+      sentKeystrokesRef.current = log.length;
 
-      if (currentPosition >= gameText.length) {
-        const finalWpm = calculateWPM(currentPosition, elapsedTimeRef.current);
-        const finalAccuracy = calculateAccuracy(input, gameText);
-        finishGame(finalWpm, finalAccuracy, elapsedTimeRef.current);
+      if (gameText && currentPosition >= gameText.length) {
+        submitResult();
 
         clearInterval(intervalId);
       }
     }, 1000);
 
     return () => clearInterval(intervalId);
-  }, [
-    calculateAccuracy,
-    calculateWPM,
-    finishGame,
-    gameText,
-    sendUpdatedPosition,
-  ]);
+  }, [gameText, sendUpdatedPosition, submitResult, isSpectator]);
+
+  // a reconnecting player picks up the race from the keystrokes the server kept
+  useEffect(() => {
+    if (!resume) return;
+
+    let input = "";
+
+    for (const [, deleted, inserted] of resume.keystrokes) {
+      input = input.slice(0, input.length - deleted) + inserted;
+    }
+
+    keystrokeLogRef.current = [...resume.keystrokes];
+    sentKeystrokesRef.current = resume.keystrokes.length;
+    setUserInput(input);
+  }, [resume]);
+
+  // the server ended the timed race, stop the clock and submit whatever was typed
+  useEffect(() => {
+    if (!isTimeUp) return;
+
+    if (elapsedTimerIntervalIdRef.current) {
+      clearInterval(elapsedTimerIntervalIdRef.current);
+      elapsedTimerIntervalIdRef.current = null;
+    }
+
+    submitResult();
+  }, [isTimeUp, submitResult]);
 
   // focus the textarea when this component loads/mounts
   useEffect(() => {
@@ -278,7 +829,22 @@ function GameInProgress() {
       return;
     }
 
-    const newInput = e.target.value;
+    let newInput = e.target.value;
+
+    // after a newline, skip over the leading indentation of the next line
+    if (
+      newInput.length > userInput.length &&
+      newInput.endsWith("\n") &&
+      gameText[newInput.length - 1] === "\n"
+    ) {
+      let indentationEnd = newInput.length;
+
+      while (autoSkipped.has(indentationEnd)) {
+        indentationEnd++;
+      }
+
+      newInput += gameText.slice(newInput.length, indentationEnd);
+    }
 
     if (newInput.length === gameText.length) {
       if (elapsedTimerIntervalIdRef.current) {
@@ -290,10 +856,41 @@ function GameInProgress() {
     if (newInput.length > gameText.length) {
       return;
     } else {
+      recordKeystroke(userInput, newInput);
       setUserInput(newInput);
     }
   };
 
+  // tab would move the focus away, insert the whitespace expected at the cursor instead
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key !== "Tab") return;
+
+    e.preventDefault();
+
+    if (!elapsedTimerIntervalIdRef.current) return;
+
+    let whitespaceEnd = userInput.length;
+
+    while (whitespaceEnd < gameText.length && gameText[whitespaceEnd] === " ") {
+      whitespaceEnd++;
+    }
+
+    const newInput =
+      userInput + gameText.slice(userInput.length, whitespaceEnd);
+
+    recordKeystroke(userInput, newInput);
+    setUserInput(newInput);
+  };
+
+  // pasting is allowed but reported, the server leaves the result unranked
+  const handlePaste = () => {
+    reportInputEvent("paste");
+  };
+
+  const handleDrop = () => {
+    reportInputEvent("drop");
+  };
+
   const handleFocus = () => {
     setIsTextAreaFocused(true);
   };
@@ -322,9 +919,10 @@ function GameInProgress() {
         className = "text-zinc-400 border-b-2 border-blue-500 animate-pulse"; // sort of a typing indicator
       }
 
+      // newlines are invisible, mark them so that they can be seen and typed
       return (
         <span key={index} className={className}>
-          {char}
+          {char === "\n" ? "↵\n" : char}
         </span>
       );
     });
@@ -345,7 +943,10 @@ function GameInProgress() {
       const isCurrentPlayer =
         currentPlayerId && player.playerId === currentPlayerId;
 
-      const wpm = calculateWPM(player.position, elapsedTimeRef.current);
+      const wpm = calculateWPM(
+        countTypedChars(player.position),
+        elapsedTimeRef.current,
+      );
 
       return (
         <div key={player.playerId} className="mb-4">
@@ -359,6 +960,11 @@ function GameInProgress() {
               >
                 {player.playerName || `Player ${player.playerId.slice(0, 4)}`}
               </span>
+              {player.isDisconnected && (
+                <span className="ml-2 text-xs text-amber-500 italic">
+                  reconnecting...
+                </span>
+              )}
             </div>
             <div className="flex items-center">
               <span className="mr-3 rounded bg-gray-100 px-2 py-1 text-xs">
@@ -388,27 +994,56 @@ function GameInProgress() {
     players,
     calculateWPM,
     calculateProgress,
+    countTypedChars,
     elapsedTimeRef,
   ]);
 
   return (
     <section className="mt-[15vh] w-full px-4">
+      <header className="mb-2 flex items-baseline gap-2 px-1">
+        {passage && (
+          <>
+            <h2 className="font-semibold text-zinc-700">{passage.title}</h2>
+            {passage.author && (
+              <span className="text-sm text-zinc-400">by {passage.author}</span>
+            )}
+          </>
+        )}
+        <span className="ml-auto flex items-center gap-1 text-sm text-zinc-400">
+          <Eye className="size-4" />
+          {isSpectator ? "Spectating" : `${spectatorCount} watching`}
+        </span>
+        {/* a finish race only runs out of time when someone is still typing */}
+        {(isTimed || isTimeUp) && (
+          <span className="flex items-center gap-1 font-mono text-lg font-bold text-blue-600">
+            <Timer className="size-5" />
+            {isTimeUp
+              ? "Time's up!"
+              : `${remainingTime ?? settings?.timeLimit}s`}
+          </span>
+        )}
+      </header>
       <div className="relative font-mono text-lg leading-relaxed">
         <div className="rounded p-4 whitespace-pre-wrap outline outline-zinc-200">
           {renderText}
         </div>
-        <textarea
-          ref={(el) => {
-            textAreaRef.current = el;
-            userInputRef.current = el;
-          }}
-          value={userInput}
-          onChange={handleInputChange}
-          onFocus={handleFocus}
-          onBlur={handleBlur}
-          spellCheck={false}
-          className="absolute top-0 left-0 h-full w-full resize-none p-4 opacity-0 outline-none"
-        />
+        {!isSpectator && (
+          <textarea
+            ref={(el) => {
+              textAreaRef.current = el;
+              userInputRef.current = el;
+            }}
+            value={userInput}
+            onChange={handleInputChange}
+            onKeyDown={handleKeyDown}
+            onPaste={handlePaste}
+            onDrop={handleDrop}
+            onFocus={handleFocus}
+            onBlur={handleBlur}
+            spellCheck={false}
+            className="absolute top-0 left-0 h-full w-full resize-none p-4 opacity-0 outline-none"
+          />
+        )}
       </div>
       <div className="mt-8 rounded-lg bg-white p-4 shadow">
         <h3 className="mb-4 text-lg font-bold">Race in Action</h3>
@@ -416,7 +1051,7 @@ function GameInProgress() {
       </div>
 
       {/* Blur overlay - only shown when textarea is not focused */}
-      {!isTextAreaFocused && (
+      {!isSpectator && !isTextAreaFocused && (
         <div
           onClick={handleOverlayClick}
           className="fixed inset-0 z-50 flex cursor-pointer items-center justify-center bg-gray-800/50 backdrop-blur-sm"
@@ -434,7 +1069,7 @@ function GameInProgress() {
 }
 
 function GameCompleted() {
-  type SortField = "position" | "wpm" | "accuracy" | "time";
+  type SortField = "position" | "wpm" | "accuracy" | "time" | "characters";
   type SortDirection = "asc" | "desc";
 
   const { result, restartGame, leaveGame } = useGameCompletedManagement();
@@ -444,6 +1079,8 @@ function GameCompleted() {
 
   const currentUserId = localStorage.getItem("playerId");
   const isHost = currentUserId === result.hostId;
+  const isTimed = result.mode === GameMode.TIMED;
+
   const handleSort = (field: SortField) => {
     if (sortField === field) {
       setSortDirection(sortDirection === "asc" ? "desc" : "asc");
@@ -458,21 +1095,64 @@ function GameCompleted() {
   );
 
   const sortedPlayers = [...result.players].sort((a, b) => {
+    // flagged results stay at the bottom whatever the sort
+    if (!!a.flagged !== !!b.flagged) {
+      return a.flagged ? 1 : -1;
+    }
+
     let comparision = 0;
     if (sortField === "position") {
-      comparision = a.position - b.position;
+      comparision = (a.position ?? 0) - (b.position ?? 0);
     } else if (sortField === "wpm") {
       comparision = b.wpm - a.wpm;
     } else if (sortField === "accuracy") {
-      comparision = b.accuracy - a.accuracy;
+      comparision = (b.accuracy ?? -1) - (a.accuracy ?? -1);
     } else if (sortField === "time") {
       comparision = a.time - b.time;
+    } else if (sortField === "characters") {
+      comparision = b.characters - a.characters;
     }
 
     return sortDirection === "asc" ? comparision : -comparision;
   });
 
-  const getPositionLabel = (position: number) => `P${position}`;
+  const getPositionLabel = (position: number | null) =>
+    position === null ? "—" : `P${position}`;
+
+  const getAccuracyLabel = (accuracy: number | null) =>
+    accuracy === null ? "—" : `${accuracy}%`;
+
+  /** Renders a rating change, a dash if the race was unrated for the player */
+  const RatingChange = ({
+    player,
+  }: {
+    player: (typeof result.players)[number];
+  }) => {
+    if (player.ratingChange === null) {
+      return <span className="text-zinc-400">—</span>;
+    }
+
+    return (
+      <span
+        className={
+          player.ratingChange > 0
+            ? "text-green-600"
+            : player.ratingChange < 0
+              ? "text-red-500"
+              : "text-zinc-500"
+        }
+        title={
+          player.provisional
+            ? "Provisional, the rating settles over the first few races"
+            : undefined
+        }
+      >
+        {player.ratingChange > 0 ? "+" : ""}
+        {player.ratingChange}
+        {player.provisional && "?"}
+      </span>
+    );
+  };
 
   const SortIndicator = ({ field }: { field: SortField }) => {
     if (sortField !== field) return null;
@@ -483,8 +1163,8 @@ function GameCompleted() {
     );
   };
 
-  const handleRestartGame = () => {
-    restartGame();
+  const handleRestartGame = (keepCustomText = false) => {
+    restartGame(keepCustomText);
   };
 
   const handleLeaveGame = () => {
@@ -496,7 +1176,11 @@ function GameCompleted() {
       <div className="mx-auto max-w-4xl">
         <div className="mb-8 text-center">
           <h1 className="mb-2 text-4xl font-bold">Race Complete!</h1>
-          <p className="text-zinc-400">Final standings for your typing race</p>
+          <p className="text-zinc-400">
+            {isTimed
+              ? "Final standings by net WPM for your timed race"
+              : "Final standings for your typing race"}
+          </p>
         </div>
 
         {/* Current User Stats */}
@@ -522,15 +1206,19 @@ function GameCompleted() {
                     {currentUser.name}
                   </h2>
                   <p className="mb-2 text-zinc-700">
-                    {currentUser.position === 1
-                      ? "Winner!"
-                      : currentUser.position === 2
-                        ? "Runner-up!"
-                        : currentUser.position === 3
-                          ? "Podium Finish!"
-                          : `Finished ${getPositionLabel(currentUser.position)}`}
+                    {currentUser.flagged
+                      ? flagReasonLabels[currentUser.flagged]
+                      : currentUser.dnf
+                        ? `Did not finish, ranked ${getPositionLabel(currentUser.position)}`
+                        : currentUser.position === 1
+                          ? "Winner!"
+                          : currentUser.position === 2
+                            ? "Runner-up!"
+                            : currentUser.position === 3
+                              ? "Podium Finish!"
+                              : `Finished ${getPositionLabel(currentUser.position)}`}
                   </p>
-                  <div className="mt-4 grid grid-cols-3 gap-4">
+                  <div className="mt-4 grid grid-cols-4 gap-4">
                     <div className="flex flex-col items-center md:items-start">
                       <div className="flex items-center gap-1 text-sm text-zinc-700">
                         <KeyRound className="h-4 w-4" />
@@ -546,16 +1234,37 @@ function GameCompleted() {
                         <span>Accuracy</span>
                       </div>
                       <span className="text-xl font-bold">
-                        {currentUser.accuracy}%
+                        {getAccuracyLabel(currentUser.accuracy)}
                       </span>
                     </div>
+                    {isTimed ? (
+                      <div className="flex flex-col items-center md:items-start">
+                        <div className="flex items-center gap-1 text-sm text-zinc-700">
+                          <Type className="h-4 w-4" />
+                          <span>Characters</span>
+                        </div>
+                        <span className="text-xl font-bold">
+                          {currentUser.characters}
+                        </span>
+                      </div>
+                    ) : (
+                      <div className="flex flex-col items-center md:items-start">
+                        <div className="flex items-center gap-1 text-sm text-zinc-700">
+                          <Clock className="h-4 w-4" />
+                          <span>Time</span>
+                        </div>
+                        <span className="text-xl font-bold">
+                          {currentUser.time}s
+                        </span>
+                      </div>
+                    )}
                     <div className="flex flex-col items-center md:items-start">
                       <div className="flex items-center gap-1 text-sm text-zinc-700">
-                        <Clock className="h-4 w-4" />
-                        <span>Time</span>
+                        <TrendingUp className="h-4 w-4" />
+                        <span>Rating</span>
                       </div>
                       <span className="text-xl font-bold">
-                        {currentUser.time}s
+                        <RatingChange player={currentUser} />
                       </span>
                     </div>
                   </div>
@@ -572,7 +1281,7 @@ function GameCompleted() {
           </div>
           <div className="rounded-lg p-3 outline outline-zinc-100">
             {/* Sortable header */}
-            <div className="mb-4 grid grid-cols-7 gap-2 text-sm font-medium">
+            <div className="mb-4 grid grid-cols-8 gap-2 text-sm font-medium">
               <div className="col-span-1">Position</div>
               <div className="col-span-2">Player</div>
               <div
@@ -587,18 +1296,28 @@ function GameCompleted() {
               >
                 Accuracy <SortIndicator field="accuracy" />
               </div>
-              <div
-                className="col-span-1 flex cursor-pointer items-center gap-1"
-                onClick={() => handleSort("time")}
-              >
-                Time <SortIndicator field="time" />
-              </div>
+              {isTimed ? (
+                <div
+                  className="col-span-1 flex cursor-pointer items-center gap-1"
+                  onClick={() => handleSort("characters")}
+                >
+                  Chars <SortIndicator field="characters" />
+                </div>
+              ) : (
+                <div
+                  className="col-span-1 flex cursor-pointer items-center gap-1"
+                  onClick={() => handleSort("time")}
+                >
+                  Time <SortIndicator field="time" />
+                </div>
+              )}
               <div
                 className="col-span-1 flex cursor-pointer items-center gap-1"
                 onClick={() => handleSort("position")}
               >
                 Rank <SortIndicator field="position" />
               </div>
+              <div className="col-span-1">Rating</div>
             </div>
 
             {/* Leaderboard rows */}
@@ -606,7 +1325,14 @@ function GameCompleted() {
               {sortedPlayers.map((player) => (
                 <div
                   key={player.id}
-                  className={`grid grid-cols-7 items-center gap-2 rounded-md p-3 text-sm outline outline-zinc-50 ${player.id === currentUserId ? "bg-zinc-100" : ""}`}
+                  className={`grid grid-cols-8 items-center gap-2 rounded-md p-3 text-sm outline outline-zinc-50 ${player.id === currentUserId ? "bg-zinc-100" : ""} ${player.flagged ? "text-zinc-400" : ""} ${player.dnf ? "text-zinc-500 italic" : ""}`}
+                  title={
+                    player.flagged
+                      ? flagReasonLabels[player.flagged]
+                      : player.dnf
+                        ? "Did not finish before the race ended"
+                        : undefined
+                  }
                 >
                   <div className="col-span-1 font-bold">
                     {getPositionLabel(player.position)}
@@ -618,10 +1344,22 @@ function GameCompleted() {
                     {player.name}
                   </div>
                   <div className="col-span-1">{player.wpm}</div>
-                  <div className="col-span-1">{player.accuracy}%</div>
-                  <div className="col-span-1">{player.time}s</div>
                   <div className="col-span-1">
-                    {player.position === 1 ? (
+                    {getAccuracyLabel(player.accuracy)}
+                  </div>
+                  <div className="col-span-1">
+                    {isTimed ? player.characters : `${player.time}s`}
+                  </div>
+                  <div className="col-span-1">
+                    {player.flagged ? (
+                      <div className="flex items-center gap-1 text-amber-500">
+                        <ShieldAlert className="h-4 w-4" /> —
+                      </div>
+                    ) : player.dnf ? (
+                      <div className="flex items-center gap-1 text-zinc-500 not-italic">
+                        <Flag className="h-4 w-4" /> DNF
+                      </div>
+                    ) : player.position === 1 ? (
                       <div className="flex items-center gap-1 text-yellow-500">
                         <Crown className="h-4 w-4" /> 1
                       </div>
@@ -629,12 +1367,19 @@ function GameCompleted() {
                       `${player.position}`
                     )}
                   </div>
+                  <div className="col-span-1">
+                    <RatingChange player={player} />
+                  </div>
                 </div>
               ))}
             </div>
           </div>
         </div>
 
+        <div className="mb-8">
+          <ChatPanel />
+        </div>
+
         {/* Action Buttons */}
         <div className="font-inter flex flex-col justify-center gap-4 sm:flex-row">
           <button
@@ -646,13 +1391,22 @@ function GameCompleted() {
           </button>
           {isHost && (
             <button
-              onClick={handleRestartGame}
+              onClick={() => handleRestartGame()}
               className="flex items-center gap-2 rounded-md bg-blue-500 px-4 py-3 text-white"
             >
               <RotateCcw className="h-4 w-4" />
               Race Again
             </button>
           )}
+          {isHost && result.passageSource === PassageSource.CUSTOM && (
+            <button
+              onClick={() => handleRestartGame(true)}
+              className="flex items-center gap-2 rounded-md bg-blue-500 px-4 py-3 text-white"
+            >
+              <RotateCcw className="h-4 w-4" />
+              Race Again on the Same Text
+            </button>
+          )}
         </div>
       </div>
     </section>
@@ -0,0 +1,122 @@
+import { useEffect, useRef, useState } from "react";
+import { Link, useNavigate, useParams } from "react-router";
+import { DatabaseZap, Info } from "lucide-react";
+import Logo from "../components/Logo";
+import { useWebSocket } from "../hooks/useWebSocket";
+import useGamePortal from "../hooks/useGamePortal";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { JOIN_ERROR_MESSAGES, JoinErrorCode } from "../types";
+
+/** Joins the game behind a shared invite link as soon as the connection is up */
+export default function Join() {
+  const { code } = useParams();
+  const { 1: status, 2: existingGameId } = useWebSocket();
+  const {
+    joinGame,
+    spectateGame,
+    leaveExistingGameAndJoin,
+    rejoinExistingGame,
+    joinError,
+  } = useGamePortal();
+  const navigator = useNavigate();
+
+  const hasAttemptedRef = useRef(false);
+  const [showDialog, setShowDialog] = useState(false);
+
+  useEffect(() => {
+    // the existing game is known by the time the connect handshake completes
+    if (status !== "connected" || !code || hasAttemptedRef.current) return;
+
+    hasAttemptedRef.current = true;
+
+    if (existingGameId) {
+      setShowDialog(true);
+    } else {
+      joinGame(code);
+    }
+  }, [status, existingGameId, code, joinGame]);
+
+  const handleLeaveAndJoin = () => {
+    setShowDialog(false);
+    leaveExistingGameAndJoin(code as string);
+  };
+
+  const handleDialogChange = (open: boolean) => {
+    if (open == false) {
+      // undecided, let the landing page offer the existing game again
+      navigator("/");
+    }
+  };
+
+  return (
+    <section className="h-full">
+      <header className="border-b border-zinc-100 p-2">
+        <Logo />
+      </header>
+      <Dialog open={showDialog} onOpenChange={handleDialogChange}>
+        <DialogContent>
+          <DialogTitle>You're Already in a Game</DialogTitle>
+          <DialogDescription>
+            Leave your unfinished game to join this one, or head back to it?
+          </DialogDescription>
+          <DialogFooter>
+            <Button variant={"outline"} onClick={rejoinExistingGame}>
+              Back to My Game
+            </Button>
+            <Button onClick={handleLeaveAndJoin} className="bg-blue-600">
+              Leave and Join
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+      <section className="font-inter mx-auto mt-[15vh] flex max-w-xl flex-col items-center gap-4 px-4 text-center">
+        {status === "connecting" && (
+          <p className="flex cursor-wait items-center gap-1 text-sm text-zinc-600 italic">
+            <Info className="size-5 text-blue-500" />
+            Connecting to the server...
+          </p>
+        )}
+        {status === "failed" && (
+          <p className="flex items-center gap-1 text-sm text-zinc-500 italic">
+            <DatabaseZap className="size-5 text-red-500" />
+            Server Unreachable. Please try again later.
+          </p>
+        )}
+        {status === "connected" && !joinError && !showDialog && (
+          <p className="flex cursor-wait items-center gap-1 text-sm text-zinc-600 italic">
+            <Info className="size-5 text-blue-500" />
+            Joining the race...
+          </p>
+        )}
+        {joinError && (
+          <>
+            <p className="flex items-center gap-1 text-sm text-red-500">
+              <Info className="size-4" />
+              {JOIN_ERROR_MESSAGES[joinError]}
+            </p>
+            <div className="flex gap-2">
+              <Button variant={"outline"} asChild>
+                <Link to="/">Back to Home</Link>
+              </Button>
+              {joinError === JoinErrorCode.ALREADY_STARTED && (
+                <Button
+                  onClick={() => spectateGame(code as string)}
+                  className="bg-blue-600"
+                >
+                  Watch
+                </Button>
+              )}
+            </div>
+          </>
+        )}
+      </section>
+    </section>
+  );
+}
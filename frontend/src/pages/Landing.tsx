@@ -1,7 +1,14 @@
 import { useEffect, useRef, useState } from "react";
 import { useWebSocket } from "../hooks/useWebSocket";
 import backgroundImage from "/hero_background.jpg?url";
-import { DatabaseZap, Info } from "lucide-react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  DatabaseZap,
+  Info,
+  Users,
+  Zap,
+} from "lucide-react";
 import Logo from "../components/Logo";
 import useGamePortal from "../hooks/useGamePortal";
 import {
@@ -13,6 +20,8 @@ import {
 } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { useSocketMessaging } from "@/hooks/useSocketMessaging";
+import { GameMode, JOIN_ERROR_MESSAGES } from "../types";
+import usePublicGames from "../hooks/usePublicGames";
 
 export default function Landing() {
   const { 1: status, 2: existingGameId } = useWebSocket();
@@ -20,7 +29,15 @@ export default function Landing() {
   const isConnected = status === "connected";
   const inviteCodeInputRef = useRef<HTMLInputElement | null>(null);
 
-  const { createGame, joinGame } = useGamePortal();
+  const {
+    createGame,
+    joinGame,
+    spectateGame,
+    quickRace,
+    cancelQuickRace,
+    isQueued,
+    joinError,
+  } = useGamePortal();
 
   useEffect(() => {
     if (existingGameId) setShowDialog(true);
@@ -49,6 +66,12 @@ export default function Landing() {
     }
   };
 
+  const handleSpectateGame = () => {
+    if (!playBtnLoader && !joinBtnLoader && inviteCodeInputRef.current) {
+      spectateGame(inviteCodeInputRef.current.value);
+    }
+  };
+
   const handleJoinOldGame = () => {
     sendMessage("rejoin_game");
   };
@@ -222,8 +245,46 @@ export default function Landing() {
                     </span>
                   )}
                 </button>
+                <button
+                  onClick={handleSpectateGame}
+                  className={`ml-3 ${joinBtnLoader || playBtnLoader ? "cursor-not-allowed opacity-50" : "cursor-pointer border-b border-transparent transition-colors duration-300 hover:border-b hover:border-zinc-500"}`}
+                  disabled={joinBtnLoader || playBtnLoader}
+                >
+                  <span className="text-xs text-zinc-500 sm:text-sm">
+                    Watch
+                  </span>
+                </button>
               </div>
             )}
+            {isConnected &&
+              (isQueued ? (
+                <p className="font-inter flex items-center gap-2 text-xs text-zinc-600 sm:text-sm">
+                  <Zap className="size-4 animate-pulse text-blue-600" />
+                  Finding a race...
+                  <button
+                    onClick={cancelQuickRace}
+                    className="cursor-pointer border-b border-transparent text-zinc-500 transition-colors duration-300 hover:border-zinc-500"
+                  >
+                    Cancel
+                  </button>
+                </p>
+              ) : (
+                <button
+                  onClick={quickRace}
+                  disabled={playBtnLoader || joinBtnLoader}
+                  className="font-inter flex cursor-pointer items-center gap-1 rounded-full bg-white/60 px-4 py-2 text-xs text-blue-700 outline-2 outline-zinc-200 transition-transform duration-200 hover:scale-105 disabled:cursor-not-allowed disabled:opacity-60 sm:text-sm"
+                >
+                  <Zap className="size-4" />
+                  Quick Race
+                </button>
+              ))}
+            {isConnected && joinError && (
+              <p className="font-inter flex items-center gap-1 text-xs text-red-500 sm:text-sm">
+                <Info className="size-4" />
+                {JOIN_ERROR_MESSAGES[joinError]}
+              </p>
+            )}
+            {isConnected && <PublicGameBrowser onJoin={joinGame} />}
           </section>
         </section>
         <footer className="font-logo px-2 text-right text-xs">
@@ -239,3 +300,73 @@ export default function Landing() {
     </>
   );
 }
+
+/** Lists the public games waiting for players, each can be joined with one click */
+function PublicGameBrowser({ onJoin }: { onJoin: (gameId: string) => void }) {
+  const { games, page, totalPages, nextPage, previousPage } = usePublicGames();
+
+  return (
+    <section className="font-inter w-[18rem] rounded-xl bg-white/60 p-3 outline-2 outline-zinc-200 sm:w-[25rem]">
+      <header className="mb-2 flex items-center justify-between px-1">
+        <h3 className="text-sm font-medium text-zinc-700">Open Races</h3>
+        {totalPages > 1 && (
+          <div className="flex items-center gap-1 text-xs text-zinc-500">
+            <button
+              onClick={previousPage}
+              disabled={page <= 1}
+              className="cursor-pointer disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              <ChevronLeft className="size-4" />
+            </button>
+            {page}/{totalPages}
+            <button
+              onClick={nextPage}
+              disabled={page >= totalPages}
+              className="cursor-pointer disabled:cursor-not-allowed disabled:opacity-40"
+            >
+              <ChevronRight className="size-4" />
+            </button>
+          </div>
+        )}
+      </header>
+      {games.length === 0 ? (
+        <p className="px-1 text-xs text-zinc-500 italic">
+          No open races right now. Create one and make it public!
+        </p>
+      ) : (
+        <ul className="flex flex-col divide-y divide-zinc-100">
+          {games.map((game) => (
+            <li
+              key={game.gameId}
+              className="flex items-center justify-between gap-2 px-1 py-2 text-xs sm:text-sm"
+            >
+              <div className="flex flex-col">
+                <span className="font-poppins text-zinc-800">
+                  {game.hostName}'s race
+                </span>
+                <span className="text-zinc-500 capitalize">
+                  {game.mode === GameMode.TIMED ? "Timed" : "Finish the Text"}
+                  {" · "}
+                  {game.passageSource}
+                </span>
+              </div>
+              <div className="flex items-center gap-3">
+                <span className="flex items-center gap-1 text-zinc-500">
+                  <Users className="size-4" />
+                  {game.playerCount}/{game.maxPlayers}
+                </span>
+                <button
+                  onClick={() => onJoin(game.gameId)}
+                  disabled={game.playerCount >= game.maxPlayers}
+                  className="cursor-pointer rounded-full bg-blue-600 px-3 py-1 text-white disabled:cursor-not-allowed disabled:opacity-50"
+                >
+                  Join
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
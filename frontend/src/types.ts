@@ -6,10 +6,19 @@ export type ConnectionStatus = "connecting" | "connected" | "failed";
 /** the type for the lobby of a game */
 export type Lobby = {
   hostId: string;
+  inviteCode: string;
+  isLocked: boolean;
+  readyIds: string[];
+  settings: GameSettings;
+  customText: string | null;
   players: {
     playerName: string;
     playerId: string;
   }[];
+  spectators: {
+    playerName: string;
+    playerId: string;
+  }[];
 };
 
 export enum GameStatus {
@@ -18,3 +27,151 @@ export enum GameStatus {
   IN_PROGRESS = "in_progress",
   COMPLETED = "completed",
 }
+
+/** the built-in sources a game can draw its passage from */
+export enum PassageSource {
+  WORDS = "words",
+  QUOTES = "quotes",
+  NUMBERS = "numbers",
+  CODE = "code",
+  CUSTOM = "custom",
+}
+
+/** metadata of the passage being raced */
+export type PassageInfo = {
+  id: string;
+  source: PassageSource;
+  title: string | null;
+  author: string | null;
+};
+
+/** the lobby settings configured by the host */
+export type GameSettings = {
+  mode: GameMode;
+  timeLimit: number;
+  maxDuration: number;
+  passageSource: PassageSource;
+  wordCount: number;
+  countdown: number;
+  maxPlayers: number;
+  isPublic: boolean;
+  autoStart: boolean;
+};
+
+/** a public game waiting for players, as listed in the lobby browser */
+export type PublicGame = {
+  gameId: string;
+  hostName: string;
+  playerCount: number;
+  maxPlayers: number;
+  mode: GameMode;
+  passageSource: PassageSource;
+};
+
+/** a message in the chat of a game */
+export type ChatMessage = {
+  id: string;
+  playerId: string;
+  playerName: string;
+  text: string;
+  sentAt: number;
+};
+
+/** the longest chat message accepted, mirrored from the backend */
+export const CHAT_MESSAGE_MAX_LENGTH = 200;
+
+/** the inclusive bounds for the numeric game settings, mirrored from the backend */
+export const SETTINGS_LIMITS = {
+  wordCount: { min: 10, max: 200 },
+  countdown: { min: 3, max: 30 },
+  maxPlayers: { min: 1, max: 10 },
+  timeLimit: { min: 15, max: 300 },
+  maxDuration: { min: 60, max: 900 },
+};
+
+/** the inclusive length bounds of a custom text, mirrored from the backend */
+export const CUSTOM_TEXT_LIMITS = { min: 20, max: 2000 };
+
+/** why the server turned a player away from a game */
+export enum JoinErrorCode {
+  NOT_FOUND = "not_found",
+  FULL = "full",
+  ALREADY_STARTED = "already_started",
+  FINISHED = "finished",
+  LOCKED = "locked",
+  BANNED = "banned",
+}
+
+/** what the player is told when turned away from a game */
+export const JOIN_ERROR_MESSAGES: Record<JoinErrorCode, string> = {
+  [JoinErrorCode.NOT_FOUND]: "The invite code doesn't look good. Try again?",
+  [JoinErrorCode.FULL]: "This race is full. Ask the host for more room!",
+  [JoinErrorCode.ALREADY_STARTED]:
+    "This race has already started. Hit Watch to spectate it!",
+  [JoinErrorCode.FINISHED]: "This race is already over.",
+  [JoinErrorCode.LOCKED]: "The host has locked this lobby.",
+  [JoinErrorCode.BANNED]: "You were removed from this race by the host.",
+};
+
+/** how a race is decided */
+export enum GameMode {
+  FINISH = "finish",
+  TIMED = "timed",
+}
+
+/** why a result was left unranked */
+export enum FlagReason {
+  PASTE = "paste",
+  BURST = "burst",
+  SPEED = "speed",
+}
+
+/** a single change to the typed input: [ms since the race started, characters deleted from the end, characters inserted at the end] */
+export type KeystrokeEntry = [number, number, string];
+
+/** the standings of a completed game */
+export type GameResult = {
+  hostId?: string;
+  mode: GameMode;
+  passageSource?: PassageSource;
+  players: {
+    id: string;
+    name: string;
+    wpm: number;
+    accuracy: number | null;
+    time: number;
+    characters: number;
+    dnf: boolean;
+    position: number | null;
+    flagged: FlagReason | null;
+    ratingChange: number | null;
+    provisional: boolean;
+  }[];
+};
+
+/** where a reconnecting player left off in the race */
+export type RaceProgress = {
+  position: number;
+  keystrokes: KeystrokeEntry[];
+};
+
+/** a snapshot of a game with everything needed to render its current stage, e.g. after a refresh */
+export type GameState = {
+  gameId: string;
+  status: GameStatus;
+  isSpectator: boolean;
+  settings: GameSettings;
+  lobby: Lobby;
+  gameText: string | null;
+  passage: PassageInfo | null;
+  startedAt: number | null;
+  countdownEndsAt: number | null;
+  players: {
+    playerId: string;
+    playerName: string;
+    position: number;
+    isDisconnected: boolean;
+  }[];
+  resume: RaceProgress | null;
+  result: GameResult | null;
+};